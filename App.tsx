@@ -1,32 +1,100 @@
-import React, { useState, useEffect } from 'react';
-import { Upload, TrendingUp, TrendingDown, Minus, BarChart2, FileText, AlertCircle, Sparkles, Activity, Settings, Key, X, CheckCircle, Save } from 'lucide-react';
-import Chart from './components/Chart';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Upload, TrendingUp, TrendingDown, Minus, BarChart2, FileText, AlertCircle, Sparkles, Activity, Settings, Key, X, CheckCircle, Save, Columns, CalendarDays } from 'lucide-react';
+import Chart, { DisplayedSeries } from './components/Chart';
 import AnalysisModal from './components/AnalysisModal';
-import { FinancialDataPoint, TradeSignal } from './types';
-import { parseCSV, calculateSummary } from './utils/csvHelper';
+import ColumnMappingModal from './components/ColumnMappingModal';
+import DiagnosticsPanel from './components/DiagnosticsPanel';
+import AssetSidebar from './components/AssetSidebar';
+import DatasetLibrary from './components/DatasetLibrary';
+import IndicatorPanel from './components/IndicatorPanel';
+import FormulaPanel from './components/FormulaPanel';
+import PriceZonesPanel from './components/PriceZonesPanel';
+import { AssetDataset, FinancialDataPoint, ChartSettings, ColumnMapping, DatasetImport, SourceTimeZone, DateFormat, ResolvedDateFormat, SavedReport, RawCSV, PriceMode, IndicatorSettings, UserIndicator } from './types';
+import { detectColumnMapping, isMappingComplete, getHeaderSignature, calculateSummary, ImportResult } from './utils/csvHelper';
+import { findProfileBySignature, saveMappingProfile } from './utils/mappingProfiles';
+import { formatTimeframe, isIntraday } from './utils/timeHelper';
+import { DATE_FORMAT_LABELS } from './utils/dateFormat';
+import { getHigherTimeframe } from './utils/resampleHelper';
+import { parseCorporateEvents } from './utils/corporateActions';
+import { IndicatorSeries, resolveIndicatorSettings, sameIndicatorInput } from './utils/indicatorEngine';
+import { saveDataset, saveDatasetMeta, loadStoredDataset } from './utils/datasetLibrary';
+import { describeRenkoMode } from './utils/renkoHelper';
+import { drawingsKey, loadDrawingLevels } from './utils/chartDrawings';
+import { loadUserIndicators, persistUserIndicators, buildFormulaColumns } from './utils/userIndicators';
+import { extractTickerFromFileName, createDatasetId, findMatchingDataset } from './utils/workspaceHelper';
 import { generateTradeSignal } from './services/geminiService';
+import { readCSVInWorker, importRowsInWorker, resampleInWorker, buildIndicatorSeriesInWorker, isCancelled, WorkerTask } from './services/dataWorkerService';
 
 type AppStage = 'idle' | 'dashboard';
 
+// Arquivo lido aguardando confirmação do mapeamento. targetId indica reprocessamento de um ativo existente.
+interface PendingImport {
+  fileName: string;
+  raw: RawCSV;
+  mapping: ColumnMapping;
+  dateFormat: DateFormat;
+  targetId?: string;
+}
+
+interface ImportProgress {
+  stage: string;
+  fraction: number;
+}
+
 const App: React.FC = () => {
-  const [data, setData] = useState<FinancialDataPoint[]>([]);
+  // Workspace: vários ativos carregados, um ativo em foco
+  const [datasets, setDatasets] = useState<AssetDataset[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
   const [appStage, setAppStage] = useState<AppStage>('idle');
-  const [loadingFile, setLoadingFile] = useState(false);
+  const [importProgress, setImportProgress] = useState<ImportProgress | null>(null);
+  const importTaskRef = useRef<WorkerTask<unknown> | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [fileName, setFileName] = useState<string | null>(null);
   
   // API Key State
   const [apiKey, setApiKey] = useState<string>('');
   const [isKeyModalOpen, setIsKeyModalOpen] = useState(false);
   const [tempKey, setTempKey] = useState('');
   
-  // AI Signal State
-  const [tradeSignal, setTradeSignal] = useState<TradeSignal | null>(null);
-  const [loadingSignal, setLoadingSignal] = useState(false);
-  
   // Modal State
   const [isModalOpen, setIsModalOpen] = useState(false);
 
+  // Column Mapping State
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [mappingError, setMappingError] = useState<string | null>(null);
+
+  // Indicadores por fórmula, compartilhados por todos os ativos
+  const [userIndicators, setUserIndicators] = useState<UserIndicator[]>(loadUserIndicators);
+
+  // Última versão de cada ativo gravada na biblioteca local (evita regravar a série a cada ajuste de preferência)
+  const persistedRef = useRef(new Map<string, AssetDataset>());
+
+  // Série de indicadores de cada ativo, calculada no worker uma vez por versão dos dados e
+  // compartilhada pelo dashboard e pelo pedido de sinal
+  const indicatorTasksRef = useRef(new Map<string, { dataset: AssetDataset; promise: Promise<IndicatorSeries> }>());
+  const [indicatorResult, setIndicatorResult] = useState<{ id: string; series: IndicatorSeries } | null>(null);
+
+  // Série exibida no gráfico e suas zonas de S/R (calculadas no worker junto com ela), usadas pelo
+  // painel e pela IA. Pedidos de sinal aguardam a série desenhada a partir dos dados do seu ativo.
+  const [chartSeries, setChartSeries] = useState<{ source: FinancialDataPoint[]; series: DisplayedSeries } | null>(null);
+  const chartSeriesRef = useRef(chartSeries);
+  const seriesWaitersRef = useRef(new Map<string, { source: FinancialDataPoint[]; resolve: (series: DisplayedSeries | null) => void }>());
+
+  const active = datasets.find(d => d.id === activeId) || null;
+  // Série bruta ou ajustada por eventos societários, completada pelos indicadores do app.
+  // Durante um recálculo do mesmo ativo, a versão anterior continua na tela.
+  const indicatorSeries = active && indicatorResult?.id === active.id ? indicatorResult.series : null;
+  const data = indicatorSeries ? indicatorSeries.data : [];
+
+  // Indicadores do app que o gráfico recalcula sobre os tijolos Renko e os candles agregados
+  const seriesIndicators = useMemo(() => {
+    if (!active || !indicatorSeries) return undefined;
+    const settings = resolveIndicatorSettings(active.indicatorSettings);
+    return {
+      jma: indicatorSeries.sources.jma === 'engine' ? settings.jma : undefined,
+      pivots: indicatorSeries.sources.topoFundo === 'engine' ? settings.pivots : undefined,
+    };
+  }, [active?.indicatorSettings, indicatorSeries]);
+
   // Load API Key from local storage on mount
   useEffect(() => {
     const storedKey = localStorage.getItem('gemini_api_key');
@@ -41,6 +109,18 @@ const App: React.FC = () => {
     }
   }, []);
 
+  // Persiste no IndexedDB: série completa quando os dados mudam, apenas o resumo nos demais casos
+  useEffect(() => {
+    datasets.forEach(dataset => {
+      const previous = persistedRef.current.get(dataset.id);
+      if (previous === dataset) return;
+      persistedRef.current.set(dataset.id, dataset);
+
+      const write = previous && previous.data === dataset.data ? saveDatasetMeta(dataset) : saveDataset(dataset);
+      write.catch(e => console.error("Failed to persist dataset", e));
+    });
+  }, [datasets]);
+
   const handleSaveKey = () => {
     if (tempKey.trim()) {
       localStorage.setItem('gemini_api_key', tempKey.trim());
@@ -55,6 +135,145 @@ const App: React.FC = () => {
       setTempKey('');
   };
 
+  const updateDataset = (id: string, patch: Partial<AssetDataset>) => {
+    setDatasets(prev => prev.map(d => (d.id === id ? { ...d, ...patch } : d)));
+  };
+
+  const loadIndicatorSeries = (dataset: AssetDataset) => {
+    const tasks = indicatorTasksRef.current;
+    const cached = tasks.get(dataset.id);
+    if (cached && sameIndicatorInput(cached.dataset, dataset)) return cached.promise;
+
+    const promise = buildIndicatorSeriesInWorker(dataset).promise;
+    tasks.set(dataset.id, { dataset, promise });
+    // Falha não fica em cache: a próxima chamada tenta de novo
+    promise.catch(() => {
+      if (tasks.get(dataset.id)?.promise === promise) tasks.delete(dataset.id);
+    });
+    return promise;
+  };
+
+  const handleChartSeriesChange = (source: FinancialDataPoint[], series: DisplayedSeries) => {
+    chartSeriesRef.current = { source, series };
+    setChartSeries(chartSeriesRef.current);
+    seriesWaitersRef.current.forEach((waiter, id) => {
+      if (waiter.source !== source) return;
+      waiter.resolve(series);
+      seriesWaitersRef.current.delete(id);
+    });
+  };
+
+  const waitForChartSeries = (id: string, source: FinancialDataPoint[]) => {
+    const current = chartSeriesRef.current;
+    if (current?.source === source) return Promise.resolve<DisplayedSeries | null>(current.series);
+    seriesWaitersRef.current.get(id)?.resolve(null); // Pedido anterior do mesmo ativo: dados já substituídos
+    return new Promise<DisplayedSeries | null>(resolve => seriesWaitersRef.current.set(id, { source, resolve }));
+  };
+
+  // Ativo que saiu da tela não terá a série desenhada: o sinal pendente segue sem zonas nem projeções
+  useEffect(() => {
+    seriesWaitersRef.current.forEach((waiter, id) => {
+      if (id === active?.id) return;
+      waiter.resolve(null);
+      seriesWaitersRef.current.delete(id);
+    });
+  }, [active?.id]);
+
+  useEffect(() => {
+    if (!active) return;
+    let stale = false;
+    const { id } = active;
+    loadIndicatorSeries(active)
+      .then(series => {
+        if (!stale) setIndicatorResult({ id, series });
+      })
+      .catch(err => {
+        if (!stale) setError(err.message || "Erro ao calcular indicadores");
+      });
+    return () => {
+      stale = true;
+    };
+  }, [active?.id, active?.data, active?.corporateEvents, active?.priceMode, active?.indicatorSettings, active?.source]);
+
+  const requestTradeSignal = async (dataset: AssetDataset) => {
+    const { id, ticker, timeframe, priceMode, chartSettings } = dataset;
+    updateDataset(id, { tradeSignal: null, loadingSignal: true });
+
+    try {
+      const { data: series, computed: computedIndicators } = await loadIndicatorSeries(dataset);
+      const summary = calculateSummary(series, ticker);
+      const recentData = series.slice(-60); 
+      const formulaColumns = buildFormulaColumns(userIndicators, series, recentData.length);
+      const renkoMode = chartSettings?.chartType === 'renko' ? describeRenkoMode(chartSettings) : undefined;
+      const displayed = waitForChartSeries(id, series);
+
+      // Tendência macro costuma ser lida no timeframe acima (ex: semanal para dados diários)
+      const higher = getHigherTimeframe(timeframe);
+      const higherData = higher ? await resampleInWorker(series, higher, timeframe).promise : [];
+      const higherTimeframe = higher && higherData.length > 1
+        ? { timeframe: higher, summary: calculateSummary(higherData, ticker), recentData: higherData.slice(-20) }
+        : undefined;
+
+      // Zonas e desenhos seguem a série do gráfico (as mesmas zonas do painel)
+      const chart = await displayed;
+      const priceZones = chart?.zones ?? [];
+      const drawingLevels = loadDrawingLevels(
+        drawingsKey(id, chartSettings?.timeframe ?? timeframe),
+        chart ? { series: chart.points, logScale: chartSettings?.priceScale === 'log' } : undefined
+      );
+      const signal = await generateTradeSignal({ summary, recentData, timeframe, priceMode, computedIndicators, formulaColumns, renkoMode, priceZones, drawingLevels, higherTimeframe }, apiKey);
+      updateDataset(id, { tradeSignal: signal });
+    } catch (e) {
+      console.error("Failed to generate signal", e);
+    } finally {
+      updateDataset(id, { loadingSignal: false });
+    }
+  };
+
+  // Executa uma etapa da importação no worker, publicando o progresso no botão de importação
+  const runImportStage = <T,>(stage: string, start: (onProgress: (fraction: number) => void) => WorkerTask<T>): Promise<T> => {
+    setImportProgress({ stage, fraction: 0 });
+    const task = start(fraction => setImportProgress({ stage, fraction }));
+    importTaskRef.current = task;
+    return task.promise.finally(() => {
+      if (importTaskRef.current === task) importTaskRef.current = null;
+    });
+  };
+
+  const cancelImport = () => {
+    importTaskRef.current?.cancel();
+  };
+
+  // Adiciona o resultado da importação ao workspace (ou substitui o ativo de destino)
+  const commitImport = (result: ImportResult, source: DatasetImport, targetId?: string) => {
+    const target = targetId ? datasets.find(d => d.id === targetId) : undefined;
+    const ticker = target ? target.ticker : extractTickerFromFileName(source.fileName);
+    const existing = target || findMatchingDataset(datasets, { ticker, timeframe: result.timeframe });
+    const id = existing ? existing.id : createDatasetId();
+
+    const dataset: AssetDataset = {
+      id,
+      ticker,
+      data: result.data,
+      timeframe: result.timeframe,
+      diagnostics: result.diagnostics,
+      dateFormatInfo: result.dateFormat,
+      source,
+      chartSettings: existing?.chartSettings,
+      tradeSignal: null,
+      loadingSignal: false,
+      reports: existing ? existing.reports : [],
+      corporateEvents: existing ? existing.corporateEvents : [],
+      priceMode: existing ? existing.priceMode : 'raw',
+      importedAt: Date.now(),
+    };
+
+    setDatasets(prev => (existing ? prev.map(d => (d.id === id ? dataset : d)) : [...prev, dataset]));
+    setActiveId(id);
+    setAppStage('dashboard');
+    requestTradeSignal(dataset);
+  };
+
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -65,37 +284,188 @@ const App: React.FC = () => {
         return;
     }
 
-    setLoadingFile(true);
     setError(null);
-    setFileName(file.name);
-    setTradeSignal(null); // Reset signal
 
     try {
-      const parsedData = await parseCSV(file);
-      setData(parsedData);
-      setAppStage('dashboard');
+      const raw = await runImportStage('Lendo', onProgress => readCSVInWorker(file, onProgress));
+      const profile = findProfileBySignature(getHeaderSignature(raw.headers));
+      const mapping = profile ? profile.mapping : detectColumnMapping(raw.headers);
+      const dateFormat = profile?.dateFormat || 'auto';
+      const pending: PendingImport = { fileName: file.name, raw, mapping, dateFormat };
 
-      // Trigger Signal Analysis Immediately
-      setLoadingSignal(true);
-      const summary = calculateSummary(parsedData);
-      const recentData = parsedData.slice(-60); 
-      
-      generateTradeSignal({ summary, recentData }, apiKey)
-        .then(signal => setTradeSignal(signal))
-        .catch(e => console.error("Failed to generate signal", e))
-        .finally(() => setLoadingSignal(false));
+      if (!isMappingComplete(mapping)) {
+        // Auto-detecção falhou: o usuário precisa indicar as colunas
+        setMappingError(null);
+        setPendingImport(pending);
+        return;
+      }
 
+      const source: DatasetImport = { fileName: file.name, raw, mapping, dateFormat, sourceTimeZone: 'B3' };
+      try {
+        commitImport(await runImportStage('Processando', onProgress => importRowsInWorker(raw, mapping, source, onProgress)), source);
+      } catch (err: any) {
+        if (isCancelled(err)) throw err;
+        // Colunas encontradas mas sem linhas válidas ou datas contraditórias: o usuário revisa no assistente
+        setMappingError(err.message || "Erro ao processar arquivo");
+        setPendingImport(pending);
+      }
     } catch (err: any) {
-      setError(err.message || "Erro ao processar arquivo");
-      setData([]);
-      setAppStage('idle');
+      if (!isCancelled(err)) setError(err.message || "Erro ao processar arquivo");
     } finally {
-      setLoadingFile(false);
+      setImportProgress(null);
       event.target.value = '';
     }
   };
 
-  const summary = calculateSummary(data);
+  const handleConfirmMapping = async (mapping: ColumnMapping, dateFormat: DateFormat, profileName?: string) => {
+    if (!pendingImport) return;
+
+    const target = pendingImport.targetId ? datasets.find(d => d.id === pendingImport.targetId) : undefined;
+    const source: DatasetImport = {
+      fileName: pendingImport.fileName,
+      raw: pendingImport.raw,
+      mapping,
+      dateFormat,
+      sourceTimeZone: target ? target.source.sourceTimeZone : 'B3',
+    };
+
+    try {
+      const result = await runImportStage('Processando', onProgress => importRowsInWorker(source.raw, mapping, source, onProgress));
+      if (profileName) {
+        saveMappingProfile(profileName, getHeaderSignature(source.raw.headers), mapping, dateFormat);
+      }
+      setPendingImport(null);
+      setMappingError(null);
+      commitImport(result, source, pendingImport.targetId);
+    } catch (err: any) {
+      if (!isCancelled(err)) setMappingError(err.message || "Erro ao processar arquivo");
+    } finally {
+      setImportProgress(null);
+    }
+  };
+
+  // Reprocessa o arquivo do ativo em foco com outros parâmetros (fuso, formato de data)
+  const reimportActive = async (changes: Partial<DatasetImport>) => {
+    if (!active) return;
+    const source = { ...active.source, ...changes };
+    try {
+      setError(null);
+      const result = await runImportStage('Processando', onProgress => importRowsInWorker(source.raw, source.mapping, source, onProgress));
+      commitImport(result, source, active.id);
+    } catch (err: any) {
+      if (!isCancelled(err)) setError(err.message || "Erro ao processar arquivo");
+    } finally {
+      setImportProgress(null);
+    }
+  };
+
+  // Eventos societários (data, tipo, fator/valor) do ativo em foco; ao importar, passa a exibir a série ajustada
+  const handleEventsUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file || !active) return;
+    const target = active;
+
+    try {
+      setError(null);
+      const corporateEvents = parseCorporateEvents(await readCSVInWorker(file).promise);
+      updateDataset(target.id, { corporateEvents, priceMode: 'adjusted' });
+      requestTradeSignal({ ...target, corporateEvents, priceMode: 'adjusted' });
+    } catch (err: any) {
+      setError(err.message || "Erro ao processar arquivo de eventos");
+    } finally {
+      event.target.value = '';
+    }
+  };
+
+  const handleIndicatorSettingsChange = (indicatorSettings: IndicatorSettings) => {
+    if (!active) return;
+    updateDataset(active.id, { indicatorSettings });
+    // O sinal só depende dos parâmetros quando algum indicador é calculado pelo app
+    const { mm72, jma, topoFundo } = active.source.mapping;
+    if (!mm72 || !jma || !topoFundo) requestTradeSignal({ ...active, indicatorSettings });
+  };
+
+  const handleUserIndicatorsChange = (indicators: UserIndicator[]) => {
+    setUserIndicators(indicators);
+    persistUserIndicators(indicators);
+  };
+
+  const handlePriceModeChange = (priceMode: PriceMode) => {
+    if (!active) return;
+    updateDataset(active.id, { priceMode });
+    requestTradeSignal({ ...active, priceMode });
+  };
+
+  const openMappingForActive = () => {
+    if (!active) return;
+    setMappingError(null);
+    setPendingImport({
+      fileName: active.source.fileName,
+      raw: active.source.raw,
+      mapping: active.source.mapping,
+      dateFormat: active.source.dateFormat,
+      targetId: active.id,
+    });
+  };
+
+  const handleRemoveDataset = (id: string) => {
+    indicatorTasksRef.current.delete(id);
+    const remaining = datasets.filter(d => d.id !== id);
+    setDatasets(remaining);
+    if (id === activeId) {
+      setActiveId(remaining.length > 0 ? remaining[0].id : null);
+    }
+    if (remaining.length === 0) {
+      setAppStage('idle');
+    }
+  };
+
+  // Abre um ativo da biblioteca local no workspace (sem nova chamada à IA se o sinal foi salvo)
+  const openStoredDataset = async (id: string) => {
+    if (datasets.some(d => d.id === id)) {
+      setActiveId(id);
+      setAppStage('dashboard');
+      return;
+    }
+
+    try {
+      setError(null);
+      const dataset = await loadStoredDataset(id);
+      persistedRef.current.set(id, dataset);
+      setDatasets(prev => [...prev, dataset]);
+      setActiveId(id);
+      setAppStage('dashboard');
+      if (!dataset.tradeSignal) requestTradeSignal(dataset);
+    } catch (err: any) {
+      setError(err.message || "Erro ao abrir ativo salvo");
+    }
+  };
+
+  // Excluído da biblioteca: sai também do workspace para não ser regravado
+  const handleStoredDatasetDeleted = (id: string) => {
+    persistedRef.current.delete(id);
+    if (datasets.some(d => d.id === id)) handleRemoveDataset(id);
+  };
+
+  const handleRenameDataset = (id: string, ticker: string) => {
+    updateDataset(id, { ticker });
+  };
+
+  const handleChartSettingsChange = (settings: ChartSettings) => {
+    if (active) updateDataset(active.id, { chartSettings: settings });
+  };
+
+  const handleReportGenerated = (report: SavedReport) => {
+    if (!active) return;
+    const id = active.id;
+    setDatasets(prev => prev.map(d => (d.id === id ? { ...d, reports: [...d.reports, report] } : d)));
+  };
+
+  const tradeSignal = active ? active.tradeSignal : null;
+  const loadingSignal = active ? active.loadingSignal : false;
+  const summary = calculateSummary(data, active?.ticker);
+  const displayedSeries = chartSeries && chartSeries.source === data ? chartSeries.series : null;
+  const priceZones = displayedSeries ? displayedSeries.zones : [];
 
   return (
     <div className="min-h-screen bg-slate-900 text-slate-200 font-sans selection:bg-emerald-500/30 relative">
@@ -145,22 +515,102 @@ const App: React.FC = () => {
             </div>
 
             <div className="flex items-center gap-4">
-                {fileName && (
+                {active && (
                     <div className="flex items-center gap-2 px-3 py-2 bg-slate-800 rounded-md border border-slate-700 text-sm">
                         <FileText size={16} className="text-emerald-500" />
-                        <span className="truncate max-w-[150px]">{fileName}</span>
+                        <span className="font-semibold text-white">{active.ticker}</span>
+                        <span className="truncate max-w-[150px] text-slate-400">{active.source.fileName}</span>
+                        <span className="text-xs px-1.5 py-0.5 rounded bg-slate-900 border border-slate-700 text-slate-400">
+                            {formatTimeframe(active.timeframe)}
+                        </span>
+                        <button
+                            onClick={openMappingForActive}
+                            className="ml-1 text-slate-500 hover:text-emerald-400 transition-colors"
+                            title="Ajustar mapeamento de colunas"
+                        >
+                            <Columns size={14} />
+                        </button>
                     </div>
                 )}
                 
-                <label className={`cursor-pointer group relative overflow-hidden transition-all text-white px-5 py-2.5 rounded-lg flex items-center gap-2 font-medium shadow-lg shadow-emerald-900/20 ${!apiKey ? 'bg-slate-700 opacity-50 cursor-not-allowed' : 'bg-emerald-600 hover:bg-emerald-500'}`}>
-                    <input type="file" accept=".csv" onChange={handleFileUpload} className="hidden" disabled={!apiKey} />
-                    {loadingFile ? (
-                         <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
-                    ) : (
+                {active && (
+                    <select
+                        value={active.source.dateFormat}
+                        onChange={(e) => reimportActive({ dateFormat: e.target.value as DateFormat })}
+                        className="bg-slate-800 border border-slate-700 rounded-md px-2 py-2 text-sm text-slate-300 focus:outline-none cursor-pointer"
+                        title={`${active.dateFormatInfo.reason} Confiança: ${(active.dateFormatInfo.confidence * 100).toFixed(0)}%`}
+                    >
+                        <option value="auto">
+                            Datas: Auto ({DATE_FORMAT_LABELS[active.dateFormatInfo.format]}{active.dateFormatInfo.manual ? '' : ` · ${(active.dateFormatInfo.confidence * 100).toFixed(0)}%`})
+                        </option>
+                        {(Object.keys(DATE_FORMAT_LABELS) as ResolvedDateFormat[]).map(f => (
+                            <option key={f} value={f}>Datas: {DATE_FORMAT_LABELS[f]}</option>
+                        ))}
+                    </select>
+                )}
+
+                {active && (
+                    <div className="flex items-center bg-slate-800 border border-slate-700 rounded-md">
+                        <label
+                            className="px-2 py-2 text-slate-400 hover:text-emerald-400 cursor-pointer transition-colors"
+                            title="Importar eventos societários (CSV com Data, Tipo e Fator/Valor)"
+                        >
+                            <input type="file" accept=".csv" onChange={handleEventsUpload} className="hidden" />
+                            <CalendarDays size={16} />
+                        </label>
+                        {active.corporateEvents.length > 0 && (
+                            <select
+                                value={active.priceMode}
+                                onChange={(e) => handlePriceModeChange(e.target.value as PriceMode)}
+                                className="bg-transparent border-l border-slate-700 px-2 py-2 text-sm text-slate-300 focus:outline-none cursor-pointer"
+                                title={`${active.corporateEvents.length} evento(s) societário(s) importado(s)`}
+                            >
+                                <option value="raw">Preços: Brutos</option>
+                                <option value="adjusted">Preços: Ajustados ({active.corporateEvents.length})</option>
+                            </select>
+                        )}
+                    </div>
+                )}
+
+                {active && isIntraday(active.timeframe) && (
+                    <select
+                        value={active.source.sourceTimeZone}
+                        onChange={(e) => reimportActive({ sourceTimeZone: e.target.value as SourceTimeZone })}
+                        className="bg-slate-800 border border-slate-700 rounded-md px-2 py-2 text-sm text-slate-300 focus:outline-none cursor-pointer"
+                        title="Fuso horário das datas no arquivo"
+                    >
+                        <option value="B3">Horário B3 (Brasília)</option>
+                        <option value="UTC">UTC</option>
+                    </select>
+                )}
+
+                {importProgress ? (
+                    <div className="flex items-center gap-2">
+                        <div className="relative overflow-hidden bg-slate-800 border border-emerald-500/30 text-white px-5 py-2.5 rounded-lg flex items-center gap-2 font-medium min-w-[200px]">
+                            {/* Barra de progresso real (bytes lidos / linhas processadas) */}
+                            <div
+                                className="absolute inset-y-0 left-0 bg-emerald-600/40 transition-all"
+                                style={{ width: `${Math.round(importProgress.fraction * 100)}%` }}
+                            ></div>
+                            <span className="relative text-sm">
+                                {importProgress.stage}... {Math.round(importProgress.fraction * 100)}%
+                            </span>
+                        </div>
+                        <button
+                            onClick={cancelImport}
+                            className="p-2.5 rounded-lg border border-slate-700 text-slate-400 hover:text-red-400 hover:border-red-500/40 transition-colors"
+                            title="Cancelar importação"
+                        >
+                            <X size={18} />
+                        </button>
+                    </div>
+                ) : (
+                    <label className={`cursor-pointer group relative overflow-hidden transition-all text-white px-5 py-2.5 rounded-lg flex items-center gap-2 font-medium shadow-lg shadow-emerald-900/20 ${!apiKey ? 'bg-slate-700 opacity-50 cursor-not-allowed' : 'bg-emerald-600 hover:bg-emerald-500'}`}>
+                        <input type="file" accept=".csv" onChange={handleFileUpload} className="hidden" disabled={!apiKey} />
                         <Upload size={18} />
-                    )}
-                    <span>{fileName ? 'Importar Outro CSV' : 'Importar CSV'}</span>
-                </label>
+                        <span>{datasets.length > 0 ? 'Adicionar Ativo (CSV)' : 'Importar CSV'}</span>
+                    </label>
+                )}
             </div>
         </div>
 
@@ -173,7 +623,7 @@ const App: React.FC = () => {
 
         {/* --- STAGE: IDLE --- */}
         {appStage === 'idle' && (
-            <div className="flex-1 flex items-center justify-center">
+            <div className="flex-1 flex flex-col items-center justify-center gap-6">
                 <div className="text-center space-y-4 max-w-md p-8 border border-slate-800 rounded-2xl bg-slate-900/50">
                     <div className="w-20 h-20 bg-slate-800 rounded-full flex items-center justify-center mx-auto mb-4">
                         <TrendingUp size={40} className="text-emerald-500 opacity-50" />
@@ -191,105 +641,158 @@ const App: React.FC = () => {
                         </button>
                     )}
                 </div>
+
+                {/* Biblioteca local: ativos importados em sessões anteriores */}
+                <DatasetLibrary
+                    onOpen={openStoredDataset}
+                    onRenamed={handleRenameDataset}
+                    onDeleted={handleStoredDatasetDeleted}
+                />
             </div>
         )}
 
         {/* --- STAGE: DASHBOARD (FULL WIDTH) --- */}
         {appStage === 'dashboard' && (
-            <div className="flex-1 flex flex-col gap-6 min-h-0 animate-fadeIn">
+            <div className="flex-1 flex flex-col lg:flex-row gap-6 min-h-0 animate-fadeIn">
+
+                {/* ASSET SIDEBAR */}
+                <AssetSidebar
+                    datasets={datasets}
+                    activeId={activeId}
+                    onSelect={setActiveId}
+                    onRename={handleRenameDataset}
+                    onRemove={handleRemoveDataset}
+                />
+
+                <div className="flex-1 flex flex-col gap-6 min-h-0 min-w-0">
                 
-                {/* AI SIGNAL CARD */}
-                <div className="grid grid-cols-1 gap-6">
-                    <div className={`relative rounded-xl border p-5 flex flex-col md:flex-row items-start md:items-center justify-between gap-4 overflow-hidden transition-all ${
-                        loadingSignal ? 'bg-slate-800 border-slate-700' :
-                        tradeSignal?.action === 'COMPRA' ? 'bg-emerald-500/10 border-emerald-500/30' : 
-                        tradeSignal?.action === 'VENDA' ? 'bg-rose-500/10 border-rose-500/30' : 
-                        'bg-slate-800 border-slate-700'
-                    }`}>
+                    {/* DATA QUALITY DIAGNOSTICS */}
+                    {active && <DiagnosticsPanel diagnostics={active.diagnostics} />}
+
+                    {/* INDICATOR ENGINE */}
+                    {active && indicatorSeries && (
+                        <IndicatorPanel
+                            settings={resolveIndicatorSettings(active.indicatorSettings)}
+                            sources={indicatorSeries.sources}
+                            computed={indicatorSeries.computed}
+                            comparisons={indicatorSeries.comparisons}
+                            onChange={handleIndicatorSettingsChange}
+                        />
+                    )}
+
+                    {/* USER FORMULAS */}
+                    {active && <FormulaPanel indicators={userIndicators} onChange={handleUserIndicatorsChange} />}
+
+                    {/* AI SIGNAL CARD */}
+                    <div className="grid grid-cols-1 gap-6">
+                        <div className={`relative rounded-xl border p-5 flex flex-col md:flex-row items-start md:items-center justify-between gap-4 overflow-hidden transition-all ${
+                            loadingSignal ? 'bg-slate-800 border-slate-700' :
+                            tradeSignal?.action === 'COMPRA' ? 'bg-emerald-500/10 border-emerald-500/30' : 
+                            tradeSignal?.action === 'VENDA' ? 'bg-rose-500/10 border-rose-500/30' : 
+                            'bg-slate-800 border-slate-700'
+                        }`}>
                         
-                        {/* Background Pulse Animation */}
-                        {loadingSignal && (
-                           <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/5 to-transparent skeleton-shimmer"></div>
-                        )}
+                            {/* Background Pulse Animation */}
+                            {loadingSignal && (
+                               <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/5 to-transparent skeleton-shimmer"></div>
+                            )}
 
-                        <div className="flex items-center gap-4 z-10">
-                            <div className={`w-12 h-12 rounded-full flex items-center justify-center shadow-lg ${
-                                loadingSignal ? 'bg-slate-700 text-slate-500' :
-                                tradeSignal?.action === 'COMPRA' ? 'bg-emerald-500 text-white shadow-emerald-500/20' : 
-                                tradeSignal?.action === 'VENDA' ? 'bg-rose-500 text-white shadow-rose-500/20' : 
-                                'bg-slate-700 text-slate-300'
-                            }`}>
-                                {loadingSignal ? <Activity className="animate-pulse" /> : 
-                                 tradeSignal?.action === 'COMPRA' ? <TrendingUp size={24} /> :
-                                 tradeSignal?.action === 'VENDA' ? <TrendingDown size={24} /> :
-                                 <Minus size={24} />
-                                }
-                            </div>
+                            <div className="flex items-center gap-4 z-10">
+                                <div className={`w-12 h-12 rounded-full flex items-center justify-center shadow-lg ${
+                                    loadingSignal ? 'bg-slate-700 text-slate-500' :
+                                    tradeSignal?.action === 'COMPRA' ? 'bg-emerald-500 text-white shadow-emerald-500/20' : 
+                                    tradeSignal?.action === 'VENDA' ? 'bg-rose-500 text-white shadow-rose-500/20' : 
+                                    'bg-slate-700 text-slate-300'
+                                }`}>
+                                    {loadingSignal ? <Activity className="animate-pulse" /> : 
+                                     tradeSignal?.action === 'COMPRA' ? <TrendingUp size={24} /> :
+                                     tradeSignal?.action === 'VENDA' ? <TrendingDown size={24} /> :
+                                     <Minus size={24} />
+                                    }
+                                </div>
                             
-                            <div>
-                                <h2 className="text-sm font-semibold uppercase tracking-wider text-slate-400 mb-0.5">Recomendação IA</h2>
-                                {loadingSignal ? (
-                                    <div className="h-6 w-32 bg-slate-700 rounded animate-pulse"></div>
-                                ) : (
-                                    <div className="flex items-center gap-3">
-                                        <span className={`text-2xl font-bold ${
-                                            tradeSignal?.action === 'COMPRA' ? 'text-emerald-400' : 
-                                            tradeSignal?.action === 'VENDA' ? 'text-rose-400' : 
-                                            'text-slate-200'
-                                        }`}>
-                                            {tradeSignal?.action || 'NEUTRO'}
-                                        </span>
-                                        {tradeSignal?.confidence && (
-                                            <span className="text-xs px-2 py-0.5 rounded-full bg-slate-950/30 border border-white/10 text-slate-400">
-                                                Confiança: {tradeSignal.confidence}
+                                <div>
+                                    <h2 className="text-sm font-semibold uppercase tracking-wider text-slate-400 mb-0.5">Recomendação IA</h2>
+                                    {loadingSignal ? (
+                                        <div className="h-6 w-32 bg-slate-700 rounded animate-pulse"></div>
+                                    ) : (
+                                        <div className="flex items-center gap-3">
+                                            <span className={`text-2xl font-bold ${
+                                                tradeSignal?.action === 'COMPRA' ? 'text-emerald-400' : 
+                                                tradeSignal?.action === 'VENDA' ? 'text-rose-400' : 
+                                                'text-slate-200'
+                                            }`}>
+                                                {tradeSignal?.action || 'NEUTRO'}
                                             </span>
-                                        )}
-                                    </div>
-                                )}
+                                            {tradeSignal?.confidence && (
+                                                <span className="text-xs px-2 py-0.5 rounded-full bg-slate-950/30 border border-white/10 text-slate-400">
+                                                    Confiança: {tradeSignal.confidence}
+                                                </span>
+                                            )}
+                                        </div>
+                                    )}
+                                </div>
                             </div>
-                        </div>
 
-                        {/* Reason Text */}
-                        <div className="flex-1 md:text-right z-10">
-                             {loadingSignal ? (
-                                 <div className="flex flex-col gap-2 items-start md:items-end">
-                                     <div className="h-4 w-full md:w-2/3 bg-slate-700 rounded animate-pulse"></div>
-                                     <div className="h-4 w-1/2 md:w-1/3 bg-slate-700 rounded animate-pulse"></div>
-                                 </div>
-                             ) : (
-                                 <p className="text-slate-300 text-sm leading-relaxed max-w-2xl ml-auto italic">
-                                     "{tradeSignal?.reason || 'Aguardando dados suficientes para análise técnica...'}"
-                                 </p>
-                             )}
+                            {/* Reason Text */}
+                            <div className="flex-1 md:text-right z-10">
+                                 {loadingSignal ? (
+                                     <div className="flex flex-col gap-2 items-start md:items-end">
+                                         <div className="h-4 w-full md:w-2/3 bg-slate-700 rounded animate-pulse"></div>
+                                         <div className="h-4 w-1/2 md:w-1/3 bg-slate-700 rounded animate-pulse"></div>
+                                     </div>
+                                 ) : (
+                                     <p className="text-slate-300 text-sm leading-relaxed max-w-2xl ml-auto italic">
+                                         "{tradeSignal?.reason || 'Aguardando dados suficientes para análise técnica...'}"
+                                     </p>
+                                 )}
+                            </div>
                         </div>
                     </div>
-                </div>
 
-                {/* Stats Row */}
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                    <StatCard 
-                        label="Último Fechamento" 
-                        value={summary ? `$${summary.lastClose.toFixed(2)}` : '--'} 
-                        trend={summary?.priceChangePercentage}
-                    />
-                    <StatCard 
-                        label="Máxima Histórica" 
-                        value={summary ? `$${summary.highestPrice.toFixed(2)}` : '--'} 
-                    />
-                    <StatCard 
-                        label="Mínima Histórica" 
-                        value={summary ? `$${summary.lowestPrice.toFixed(2)}` : '--'} 
-                    />
-                    <StatCard 
-                        label="Volume Médio" 
-                        value={summary ? (summary.averageVolume / 1000).toFixed(1) + 'k' : '--'} 
-                        icon={<BarChart2 size={16} className="text-slate-500" />}
-                    />
-                </div>
+                    {/* Stats Row */}
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        <StatCard 
+                            label="Último Fechamento" 
+                            value={summary ? `$${summary.lastClose.toFixed(2)}` : '--'} 
+                            trend={summary?.priceChangePercentage}
+                        />
+                        <StatCard 
+                            label="Máxima Histórica" 
+                            value={summary ? `$${summary.highestPrice.toFixed(2)}` : '--'} 
+                        />
+                        <StatCard 
+                            label="Mínima Histórica" 
+                            value={summary ? `$${summary.lowestPrice.toFixed(2)}` : '--'} 
+                        />
+                        <StatCard 
+                            label="Volume Médio" 
+                            value={summary ? (summary.averageVolume / 1000).toFixed(1) + 'k' : '--'} 
+                            icon={<BarChart2 size={16} className="text-slate-500" />}
+                        />
+                    </div>
 
-                {/* Main Chart Area - Full Width */}
-                <div className="flex-1 min-h-[400px] w-full">
-                    <Chart key="dashboard-chart" data={data} initialChartType="area" initialBrickSize={25} />
+                    <PriceZonesPanel zones={priceZones} lastClose={summary?.lastClose} />
+
+                    {/* Main Chart Area - Full Width */}
+                    <div className="flex-1 min-h-[400px] w-full">
+                        <Chart
+                            key={`dashboard-chart-${active?.id}`}
+                            data={data}
+                            datasetId={active?.id}
+                            ticker={active?.ticker}
+                            timeframe={active?.timeframe}
+                            priceMode={active?.priceMode}
+                            hasOHLC={!!(active?.source.mapping.open && active.source.mapping.high && active.source.mapping.low)}
+                            tickSize={indicatorSeries?.tickSize}
+                            seriesIndicators={seriesIndicators}
+                            userIndicators={userIndicators}
+                            initialChartType="area"
+                            initialSettings={active?.chartSettings}
+                            onSettingsChange={handleChartSettingsChange}
+                            onSeriesChange={handleChartSeriesChange}
+                        />
+                    </div>
                 </div>
             </div>
         )}
@@ -300,9 +803,32 @@ const App: React.FC = () => {
          isOpen={isModalOpen} 
          onClose={() => setIsModalOpen(false)} 
          data={data} 
+         ticker={active?.ticker}
+         timeframe={active?.timeframe}
+         priceMode={active?.priceMode}
+         computedIndicators={indicatorSeries?.computed}
+         priceZones={priceZones}
+         userIndicators={userIndicators}
+         renkoMode={active?.chartSettings?.chartType === 'renko' ? describeRenkoMode(active.chartSettings) : undefined}
+         drawingsKey={active ? drawingsKey(active.id, active.chartSettings?.timeframe ?? active.timeframe) : undefined}
+         drawingProjection={displayedSeries ? { series: displayedSeries.points, logScale: active?.chartSettings?.priceScale === 'log' } : undefined}
+         reports={active?.reports}
+         onReportGenerated={handleReportGenerated}
          apiKey={apiKey}
       />
 
+      {/* Column Mapping Wizard */}
+      <ColumnMappingModal
+         isOpen={!!pendingImport}
+         fileName={pendingImport ? pendingImport.fileName : null}
+         raw={pendingImport ? pendingImport.raw : null}
+         initialMapping={pendingImport ? pendingImport.mapping : {}}
+         initialDateFormat={pendingImport ? pendingImport.dateFormat : 'auto'}
+         error={mappingError}
+         onConfirm={handleConfirmMapping}
+         onClose={() => setPendingImport(null)}
+      />
+
       {/* API Key Configuration Modal */}
       {isKeyModalOpen && (
           <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
@@ -1,17 +1,31 @@
 import React, { useState, useEffect } from 'react';
-import { X, Sparkles, FileText, Copy, Check, RefreshCw, TrendingUp, TrendingDown, Target, ShieldAlert, DollarSign } from 'lucide-react';
-import { FinancialDataPoint } from '../types';
+import { X, Sparkles, FileText, Copy, Check, RefreshCw, TrendingUp, TrendingDown, Target, ShieldAlert, DollarSign, History } from 'lucide-react';
+import { FinancialDataPoint, Timeframe, ReportResponse, SavedReport, PriceMode, UserIndicator } from '../types';
 import { calculateSummary } from '../utils/csvHelper';
-import { generateReport, ReportResponse } from '../services/geminiService';
+import { buildFormulaColumns } from '../utils/userIndicators';
+import { generateReport } from '../services/geminiService';
+import { DrawingProjection, loadDrawingLevels } from '../utils/chartDrawings';
+import { PriceZone } from '../utils/supportResistance';
 
 interface AnalysisModalProps {
   isOpen: boolean;
   onClose: () => void;
   data: FinancialDataPoint[];
+  ticker?: string;
+  timeframe?: Timeframe;
+  priceMode?: PriceMode;
+  computedIndicators?: string[];
+  priceZones?: PriceZone[]; // Zonas da série exibida no gráfico
+  userIndicators?: UserIndicator[]; // Os marcados para a IA viram colunas extras no contexto
+  renkoMode?: string;
+  drawingsKey?: string; // Desenhos do gráfico exibido (lidos no momento da geração)
+  drawingProjection?: DrawingProjection; // Série e escala do gráfico exibido, para projetar as linhas de tendência
+  reports?: SavedReport[]; // Histórico de relatórios do ativo
+  onReportGenerated?: (report: SavedReport) => void;
   apiKey?: string;
 }
 
-const AnalysisModal: React.FC<AnalysisModalProps> = ({ isOpen, onClose, data, apiKey }) => {
+const AnalysisModal: React.FC<AnalysisModalProps> = ({ isOpen, onClose, data, ticker, timeframe, priceMode, computedIndicators, priceZones, userIndicators = [], renkoMode, drawingsKey, drawingProjection, reports = [], onReportGenerated, apiKey }) => {
   const [instruction, setInstruction] = useState('');
   const [reportData, setReportData] = useState<ReportResponse | null>(null);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
@@ -24,6 +38,12 @@ const AnalysisModal: React.FC<AnalysisModalProps> = ({ isOpen, onClose, data, ap
     }
   }, [isOpen]);
 
+  // Troca de ativo: o relatório aberto pertence ao ativo anterior
+  useEffect(() => {
+    setReportData(null);
+    setErrorMsg(null);
+  }, [ticker]);
+
   if (!isOpen) return null;
 
   const handleGenerate = async () => {
@@ -33,12 +53,16 @@ const AnalysisModal: React.FC<AnalysisModalProps> = ({ isOpen, onClose, data, ap
     setCopied(false);
 
     try {
-        const summary = calculateSummary(data);
+        const summary = calculateSummary(data, ticker);
         const recentData = data.slice(-60);
         
-        const result = await generateReport(instruction, { summary, recentData }, apiKey);
+        const formulaColumns = buildFormulaColumns(userIndicators, data, recentData.length);
+        const drawingLevels = drawingsKey ? loadDrawingLevels(drawingsKey, drawingProjection) : undefined;
+        
+        const result = await generateReport(instruction, { summary, recentData, timeframe, priceMode, computedIndicators, formulaColumns, renkoMode, priceZones, drawingLevels }, apiKey);
         if (result) {
             setReportData(result);
+            onReportGenerated?.({ report: result, instruction, createdAt: Date.now() });
         } else {
             setErrorMsg("Não foi possível gerar a análise. Verifique sua chave de API e tente novamente.");
         }
@@ -113,7 +137,7 @@ Gerado por AI - Remora
                     <FileText className="text-emerald-500" size={24} />
                 </div>
                 <div>
-                    <h2 className="text-xl font-bold text-slate-100">Gerador de Relatórios AI</h2>
+                    <h2 className="text-xl font-bold text-slate-100">Gerador de Relatórios AI{ticker ? ` · ${ticker}` : ''}</h2>
                     <p className="text-xs text-slate-400">Análise Quantitativa & Técnica Avançada</p>
                 </div>
             </div>
@@ -158,6 +182,29 @@ Gerado por AI - Remora
                         <Sparkles size={24} />
                         Gerar Análise Completa
                     </button>
+
+                    {reports.length > 0 && (
+                        <div className="w-full">
+                            <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2 flex items-center gap-2">
+                                <History size={14} /> Relatórios Anteriores
+                            </h4>
+                            <div className="space-y-2 max-h-48 overflow-y-auto">
+                                {[...reports].reverse().map(saved => (
+                                    <button
+                                        key={saved.createdAt}
+                                        onClick={() => setReportData(saved.report)}
+                                        className="w-full flex items-center justify-between gap-3 px-4 py-2 bg-slate-800/50 hover:bg-slate-800 border border-slate-700 rounded-lg text-left transition-colors"
+                                    >
+                                        <span className="text-sm text-slate-300 truncate">{saved.report.title}</span>
+                                        <span className="flex items-center gap-3 shrink-0">
+                                            <span className={`text-xs font-bold px-2 py-0.5 rounded border ${getActionColor(saved.report.action)}`}>{saved.report.action}</span>
+                                            <span className="text-xs text-slate-500">{new Date(saved.createdAt).toLocaleString('pt-BR')}</span>
+                                        </span>
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
                 </div>
             )}
 
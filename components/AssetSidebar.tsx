@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { Layers, X, Pencil, Check, TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { AssetDataset } from '../types';
+import { formatTimeframe } from '../utils/timeHelper';
+
+interface AssetSidebarProps {
+  datasets: AssetDataset[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onRename: (id: string, ticker: string) => void;
+  onRemove: (id: string) => void;
+}
+
+const AssetSidebar: React.FC<AssetSidebarProps> = ({ datasets, activeId, onSelect, onRename, onRemove }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTicker, setDraftTicker] = useState('');
+
+  const startEditing = (dataset: AssetDataset) => {
+    setEditingId(dataset.id);
+    setDraftTicker(dataset.ticker);
+  };
+
+  const commitEditing = () => {
+    if (editingId && draftTicker.trim()) {
+      onRename(editingId, draftTicker.trim().toUpperCase());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <aside className="w-full lg:w-60 shrink-0 bg-slate-800/40 rounded-xl border border-slate-800 flex flex-col min-h-0">
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-slate-800 text-xs font-semibold text-slate-500 uppercase tracking-wider">
+        <Layers size={14} /> Ativos ({datasets.length})
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {datasets.map(dataset => {
+          const isActive = dataset.id === activeId;
+          const first = dataset.data[0];
+          const last = dataset.data[dataset.data.length - 1];
+          const change = first && last ? ((last.close - first.open) / first.open) * 100 : 0;
+          const action = dataset.tradeSignal?.action;
+
+          return (
+            <div
+              key={dataset.id}
+              onClick={() => onSelect(dataset.id)}
+              className={`group rounded-lg px-3 py-2 cursor-pointer border transition-colors ${isActive ? 'bg-emerald-500/10 border-emerald-500/30' : 'border-transparent hover:bg-slate-800'}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                {editingId === dataset.id ? (
+                  <div className="flex items-center gap-1 flex-1" onClick={(e) => e.stopPropagation()}>
+                    <input
+                      autoFocus
+                      value={draftTicker}
+                      onChange={(e) => setDraftTicker(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitEditing();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-0.5 text-sm text-white uppercase focus:outline-none focus:ring-1 focus:ring-emerald-500/50"
+                    />
+                    <button onClick={commitEditing} className="text-emerald-400 hover:text-emerald-300">
+                      <Check size={14} />
+                    </button>
+                  </div>
+                ) : (
+                  <span className={`font-semibold text-sm ${isActive ? 'text-white' : 'text-slate-300'}`}>{dataset.ticker}</span>
+                )}
+
+                {editingId !== dataset.id && (
+                  <div className="flex items-center gap-1">
+                    {dataset.loadingSignal ? (
+                      <div className="w-3 h-3 border-2 border-slate-600 border-t-emerald-400 rounded-full animate-spin"></div>
+                    ) : action === 'COMPRA' ? (
+                      <TrendingUp size={14} className="text-emerald-400" />
+                    ) : action === 'VENDA' ? (
+                      <TrendingDown size={14} className="text-rose-400" />
+                    ) : (
+                      <Minus size={14} className="text-slate-500" />
+                    )}
+                    <button
+                      onClick={(e) => { e.stopPropagation(); startEditing(dataset); }}
+                      className="opacity-0 group-hover:opacity-100 text-slate-500 hover:text-white transition-opacity"
+                      title="Renomear ticker"
+                    >
+                      <Pencil size={12} />
+                    </button>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); onRemove(dataset.id); }}
+                      className="opacity-0 group-hover:opacity-100 text-slate-500 hover:text-red-400 transition-opacity"
+                      title="Remover do workspace"
+                    >
+                      <X size={14} />
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              <div className="flex items-center justify-between mt-0.5 text-xs">
+                <span className="text-slate-500">{formatTimeframe(dataset.timeframe)}</span>
+                {last && (
+                  <span className="font-mono text-slate-400">
+                    {last.close.toFixed(2)}{' '}
+                    <span className={change >= 0 ? 'text-emerald-400' : 'text-red-400'}>
+                      {change >= 0 ? '+' : ''}{change.toFixed(1)}%
+                    </span>
+                  </span>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </aside>
+  );
+};
+
+export default AssetSidebar;
@@ -1,4 +1,4 @@
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import {
   Area,
   ComposedChart, 
@@ -9,21 +9,91 @@ import {
   YAxis,
   CartesianGrid,
   Tooltip,
+  Brush,
+  ReferenceArea,
   ResponsiveContainer,
   Cell
 } from 'recharts';
-import { Settings, BarChart2, Activity, AlertTriangle, Eye, EyeOff, Layers } from 'lucide-react';
-import { FinancialDataPoint } from '../types';
-import { calculateRenkoBricks } from '../utils/renkoHelper';
+import { Settings, BarChart2, Activity, CandlestickChart, ChartNoAxesColumn, AlertTriangle, Eye, EyeOff, Layers, Download, PanelBottom, Pin, Maximize2, PenLine, TrendingUp, Minus, Square, Percent, Bot, Trash2 } from 'lucide-react';
+import { FinancialDataPoint, Timeframe, ChartSettings, PriceMode, PriceStyle, PriceScale, ChartPane, UserIndicator, DrawingTool, DrawingAnchor, BrickSizing, BrickSizeMode, RenkoSource, IntrabarOrder } from '../types';
+import { AreaSeriesPoint, RenkoSeriesPoint, SeriesIndicators } from '../utils/chartSeries';
+import { buildSeriesInWorker, isCancelled } from '../services/dataWorkerService';
+import { downloadSeries, ExportFormat } from '../utils/exportHelper';
+import { formatAxisLabel, formatTooltipLabel, formatTimeframe, isSameTimeframe } from '../utils/timeHelper';
+import { getResampleOptions } from '../utils/resampleHelper';
+import { DEFAULT_BRICK_SIZING } from '../utils/renkoHelper';
+import { clampRange, downsampleMinMax, panRange, PointExtent, ViewRange, zoomRange } from '../utils/chartViewport';
+import { PriceZone } from '../utils/supportResistance';
+import { formatPercent, logTicks, paddedDomain, percentTicks, PRICE_SCALE_LABELS, toPercent } from '../utils/priceScale';
+import { createDrawingId, DrawingSet, DRAWING_COLORS, DRAWING_TOOL_LABELS, drawingsKey, loadDrawingSet, persistDrawingSet } from '../utils/chartDrawings';
+import SettingInput from './SettingInput';
+import DrawingLayer from './DrawingLayer';
+import OscillatorPane, { FormulaPane, OSCILLATOR_PANES, PANE_TOOLTIP_FIELDS } from './OscillatorPane';
 
 interface ChartProps {
   data: FinancialDataPoint[];
+  datasetId?: string; // Chave dos desenhos salvos
+  ticker?: string; // Usado no nome dos arquivos exportados
+  timeframe?: Timeframe;
+  priceMode?: PriceMode;
+  hasOHLC?: boolean; // CSV com colunas reais de abertura, máxima e mínima (padrão: candles)
+  tickSize?: number; // Tick inferido dos preços brutos do ativo (tamanho automático dos tijolos)
+  seriesIndicators?: SeriesIndicators; // Indicadores do app recalculados sobre tijolos e candles agregados
+  userIndicators?: UserIndicator[]; // Fórmulas do usuário (somente as visíveis são calculadas)
   initialChartType?: 'area' | 'renko';
   initialBrickSize?: number;
+  initialSettings?: Partial<ChartSettings>; // Estado salvo do ativo (sobrepõe os valores iniciais)
+  onSettingsChange?: (settings: ChartSettings) => void;
+  onSeriesChange?: (source: FinancialDataPoint[], series: DisplayedSeries) => void; // Série exibida, calculada a partir de `source`
+}
+
+// Série desenhada e suas zonas, publicadas para o painel de zonas e o contexto da IA
+export interface DisplayedSeries {
+  points: { date: string }[];
+  zones: PriceZone[];
 }
 
 type ChartType = 'area' | 'renko';
 
+const PRICE_STYLES: { id: PriceStyle; label: string; icon: React.ReactNode }[] = [
+  { id: 'candles', label: 'Candles', icon: <CandlestickChart size={16} /> },
+  { id: 'ohlc', label: 'Barras OHLC', icon: <ChartNoAxesColumn size={16} /> },
+  { id: 'line', label: 'Linha', icon: <Activity size={16} /> },
+];
+
+// Tamanhos manuais oferecidos no seletor (um tamanho fixado fora da lista também aparece)
+const BRICK_SIZES = [0.25, 0.5, 2, 4, 6, 12, 18, 25, 35, 60, 80, 120, 250];
+
+const BRICK_MODE_LABELS: Record<BrickSizeMode, string> = {
+  atr: 'Auto (ATR)',
+  percent: 'Auto (% preço)',
+  manual: 'Manual',
+  log: 'Percentual (log)',
+};
+
+// Preços que formam os tijolos (fonte + ordem assumida dos extremos dentro do candle)
+const RENKO_PATH_OPTIONS: { value: string; label: string; source: RenkoSource; order?: IntrabarOrder }[] = [
+  { value: 'close', label: 'Fechamento', source: 'close' },
+  { value: 'candle', label: 'Máx/Mín (cor do candle)', source: 'highLow', order: 'candle' },
+  { value: 'highFirst', label: 'Máx/Mín (máxima primeiro)', source: 'highLow', order: 'highFirst' },
+  { value: 'lowFirst', label: 'Máx/Mín (mínima primeiro)', source: 'highLow', order: 'lowFirst' },
+];
+
+const DRAWING_TOOL_ICONS: Record<DrawingTool, React.ReactNode> = {
+  trendline: <TrendingUp size={12} />,
+  horizontal: <Minus size={12} />,
+  rectangle: <Square size={12} />,
+  fibonacci: <Percent size={12} />,
+};
+
+const formatBrickSize = (size: number) => `${size < 1 ? size.toFixed(2) : size}R`;
+
+// Liga cursor e tooltip do painel de preço aos painéis de osciladores
+const CHART_SYNC_ID = 'price-panes';
+
+// Abaixo disso a visão geral com brush não é exibida
+const MIN_BRUSH_POINTS = 30;
+
 // Componente Customizado para renderizar T e F
 const TopoFundoMarker = (props: any) => {
   const { cx, cy, payload } = props;
@@ -49,159 +119,269 @@ const TopoFundoMarker = (props: any) => {
   );
 };
 
-const Chart: React.FC<ChartProps> = ({ data, initialChartType = 'area', initialBrickSize = 25 }) => {
-  const [chartType, setChartType] = useState<ChartType>(initialChartType);
-  const [brickSize, setBrickSize] = useState<number>(initialBrickSize); 
+// Candle ou barra OHLC desenhado na faixa [mínima, máxima] da barra (y/height já estão em pixels).
+// Na escala log, abertura e fechamento são interpolados em log dentro da faixa.
+const PriceBarShape = (props: any) => {
+  const { x, y, width, height, payload, variant, logScale } = props;
+  if (!payload || !isFinite(y) || !isFinite(height)) return null;
+
+  const top = Math.min(y, y + height);
+  const range = Math.abs(height);
+  const project = (price: number) => (logScale ? Math.log(price) : price);
+  const span = project(payload.high) - project(payload.low);
+  const toY = (price: number) => (span > 0 ? top + ((project(payload.high) - project(price)) / span) * range : top);
+  const isUp = payload.close >= payload.open;
+  const color = isUp ? '#10b981' : '#ef4444';
+  const center = x + width / 2;
+  const openY = toY(payload.open);
+  const closeY = toY(payload.close);
+
+  if (variant === 'ohlc') {
+    // Traço à esquerda = abertura, à direita = fechamento
+    return (
+      <g stroke={color} strokeWidth={1.5}>
+        <line x1={center} y1={top} x2={center} y2={top + range} />
+        <line x1={x} y1={openY} x2={center} y2={openY} />
+        <line x1={center} y1={closeY} x2={x + width} y2={closeY} />
+      </g>
+    );
+  }
+
+  return (
+    <g>
+      <line x1={center} y1={top} x2={center} y2={top + range} stroke={color} />
+      <rect
+        x={x}
+        y={Math.min(openY, closeY)}
+        width={Math.max(1, width)}
+        height={Math.max(1, Math.abs(closeY - openY))}
+        fill={color}
+        stroke={isUp ? '#047857' : '#b91c1c'}
+      />
+    </g>
+  );
+};
+
+const Chart: React.FC<ChartProps> = ({ data, datasetId, ticker, timeframe, priceMode, hasOHLC = false, tickSize, seriesIndicators, userIndicators = [], initialChartType = 'area', initialBrickSize = 25, initialSettings, onSettingsChange, onSeriesChange }) => {
+  const [chartType, setChartType] = useState<ChartType>(initialSettings?.chartType ?? initialChartType);
+  const [priceStyle, setPriceStyle] = useState<PriceStyle>(initialSettings?.priceStyle ?? (hasOHLC ? 'candles' : 'line'));
+  const [priceScale, setPriceScale] = useState<PriceScale>(initialSettings?.priceScale ?? 'linear');
+  const [brickSize, setBrickSize] = useState<number>(initialSettings?.brickSize ?? initialBrickSize); 
+  // Ativo novo começa no automático; preferências salvas antes do modo automático seguem no manual
+  const [brickSizing, setBrickSizing] = useState<BrickSizing>(
+    initialSettings?.brickSizing
+      ? { ...DEFAULT_BRICK_SIZING, ...initialSettings.brickSizing }
+      : (initialSettings ? { ...DEFAULT_BRICK_SIZING, mode: 'manual' } : DEFAULT_BRICK_SIZING)
+  );
+  // Ativo novo usa a reversão clássica; preferências salvas antes da regra seguem com 1 tijolo
+  const [renkoReversal, setRenkoReversal] = useState<number>(initialSettings?.renkoReversal ?? (initialSettings ? 1 : 2));
+  const [renkoSource, setRenkoSource] = useState<RenkoSource>(initialSettings?.renkoSource ?? 'close');
+  const [intrabarOrder, setIntrabarOrder] = useState<IntrabarOrder>(initialSettings?.intrabarOrder ?? 'candle');
+  const renkoOptions = { reversal: renkoReversal, source: renkoSource, intrabarOrder };
+  // Tamanho calculado no worker (automático ou grade percentual)
+  const isAutoBrick = brickSizing.mode !== 'manual';
   
   // Atualiza estado se as props mudarem (ex: reinício do componente)
   useEffect(() => {
-    setChartType(initialChartType);
-    setBrickSize(initialBrickSize);
+    setChartType(initialSettings?.chartType ?? initialChartType);
+    setBrickSize(initialSettings?.brickSize ?? initialBrickSize);
   }, [initialChartType, initialBrickSize]);
 
   // Estados de visibilidade dos indicadores
-  const [showMM72, setShowMM72] = useState(true);
-  const [showJMA, setShowJMA] = useState(true);
-  const [showSignals, setShowSignals] = useState(true);
-
-  // --- ALGORITMO DE FILTRO ZIGZAG ---
-  // Avalia topos e fundos relevantes baseados em alternância estrita (Topo -> Fundo -> Topo)
-  // Se houver múltiplos topos consecutivos, mantém apenas o mais alto.
-  // Se houver múltiplos fundos consecutivos, mantém apenas o mais baixo.
-  const filterRelevantSignals = (items: any[]) => {
-    const validIndices = new Set<number>();
-    let pending = null; // { index, type: 'top' | 'bottom', value }
-
-    items.forEach((item, i) => {
-      // 1. Detectar se há dado cru do indicador no CSV
-      if (item.topoFundo === undefined || item.topoFundo === null) return;
-
-      // 2. Definir geometricamente se é candidato a Topo ou Fundo
-      // (Renko usa wickBounds, Area usa high/low)
-      const high = item.wickBounds ? item.wickBounds[1] : item.high;
-      const low = item.wickBounds ? item.wickBounds[0] : item.low;
-      
-      const distHigh = Math.abs(item.topoFundo - high);
-      const distLow = Math.abs(item.topoFundo - low);
-      
-      // Se estiver mais perto da máxima, é candidato a Topo.
-      const isTopCandidate = distHigh <= distLow;
-      const price = isTopCandidate ? high : low;
-
-      // 3. Lógica ZigZag (Alternância Estrita)
-      if (!pending) {
-        pending = { index: i, type: isTopCandidate ? 'top' : 'bottom', value: price };
-        return;
-      }
+  const [showMM72, setShowMM72] = useState(initialSettings?.showMM72 ?? true);
+  const [showJMA, setShowJMA] = useState(initialSettings?.showJMA ?? true);
+  const [showSignals, setShowSignals] = useState(initialSettings?.showSignals ?? true);
+  const [showZones, setShowZones] = useState(initialSettings?.showZones ?? true);
+  const [panes, setPanes] = useState<Partial<Record<ChartPane, boolean>>>(initialSettings?.panes ?? {});
+  const visiblePanes = OSCILLATOR_PANES.filter(p => panes[p.id]).map(p => p.id);
 
-      if (pending.type === 'top') {
-        if (isTopCandidate) {
-           // Conflito: Temos um Topo pendente e apareceu outro Topo.
-           // REGRA: Se este novo for MAIS ALTO, ele assume o posto.
-           if (price >= pending.value) {
-              pending = { index: i, type: 'top', value: price };
-           }
-        } else {
-           // Alternância: É um Fundo. 
-           // Confirmamos o Topo anterior como relevante.
-           validIndices.add(pending.index);
-           // Iniciamos a busca por um novo fundo
-           pending = { index: i, type: 'bottom', value: price };
-        }
-      } else { // pending.type === 'bottom'
-         if (!isTopCandidate) {
-            // Conflito: Temos um Fundo pendente e apareceu outro Fundo.
-            // REGRA: Se este novo for MAIS BAIXO, ele assume.
-            if (price <= pending.value) {
-               pending = { index: i, type: 'bottom', value: price };
-            }
-         } else {
-            // Alternância: É um Topo.
-            // Confirmamos o Fundo anterior como relevante.
-            validIndices.add(pending.index);
-            // Iniciamos a busca por um novo topo
-            pending = { index: i, type: 'top', value: price };
-         }
-      }
-    });
+  const visibleFormulas = userIndicators.filter(i => i.visible);
+  const formulaOverlays = visibleFormulas.filter(i => i.display === 'overlay');
+  const formulaPanes = visibleFormulas.filter(i => i.display === 'pane');
+  const formulaRequest = visibleFormulas.map(({ id, formula }) => ({ id, formula }));
 
-    // Adiciona o último sinal pendente (o sinal atual do mercado)
-    if (pending) validIndices.add(pending.index);
+  // Timeframe exibido: o da série importada ou um maior, obtido por agregação
+  const [viewTimeframe, setViewTimeframe] = useState<Timeframe | undefined>(initialSettings?.timeframe ?? timeframe);
+  const timeframeOptions = useMemo(() => (timeframe ? [timeframe, ...getResampleOptions(timeframe)] : []), [timeframe]);
 
-    return validIndices;
+  // Propaga o estado para quem guarda as preferências por ativo
+  useEffect(() => {
+    onSettingsChange?.({ chartType, priceStyle, priceScale, timeframe: viewTimeframe, brickSize, brickSizing, renkoReversal, renkoSource, intrabarOrder, showMM72, showJMA, showSignals, showZones, panes });
+  }, [chartType, priceStyle, priceScale, viewTimeframe, brickSize, brickSizing, renkoReversal, renkoSource, intrabarOrder, showMM72, showJMA, showSignals, showZones, panes]);
+
+  // Preferência salva pode não se aplicar à série atual (ex: reimportação em outro timeframe)
+  const activeTimeframe = viewTimeframe && timeframeOptions.some(tf => isSameTimeframe(tf, viewTimeframe)) ? viewTimeframe : timeframe;
+
+  // Desenhos do ativo no timeframe exibido (compartilhados entre candles e Renko)
+  const drawingKey = drawingsKey(datasetId, activeTimeframe);
+  const [drawingSet, setDrawingSet] = useState<DrawingSet>(() => loadDrawingSet(drawingKey));
+  const [drawingTool, setDrawingTool] = useState<DrawingTool | null>(null);
+  const [selectedDrawing, setSelectedDrawing] = useState<string | null>(null);
+  useEffect(() => {
+    setDrawingSet(loadDrawingSet(drawingKey));
+    setSelectedDrawing(null);
+  }, [drawingKey]);
+
+  const updateDrawingSet = (next: DrawingSet) => {
+    setDrawingSet(next);
+    persistDrawingSet(drawingKey, next);
   };
 
-  // Processamento de dados para Área
-  const areaData = useMemo(() => {
-    if (chartType !== 'area') return [];
-    
-    // 1. Executa o filtro de relevância
-    const relevantIndices = filterRelevantSignals(data);
+  const handleCreateDrawing = (tool: DrawingTool, anchors: DrawingAnchor[]) => {
+    updateDrawingSet({ ...drawingSet, drawings: [...drawingSet.drawings, { id: createDrawingId(), tool, anchors, color: DRAWING_COLORS[tool] }] });
+    setDrawingTool(null);
+  };
 
-    return data.map((d, i) => {
-      // Verifica se este índice foi marcado como relevante pelo algoritmo
-      const isRelevant = relevantIndices.has(i);
+  const deleteDrawing = (id: string) => {
+    updateDrawingSet({ ...drawingSet, drawings: drawingSet.drawings.filter(d => d.id !== id) });
+    setSelectedDrawing(null);
+  };
 
-      if (!isRelevant) {
-          // Se não for relevante, passamos o dado sem as props de desenho do sinal
-          return { ...d, topoFundoPoint: null, isTopSignal: undefined };
+  // Esc cancela a ferramenta; Delete apaga o desenho selecionado
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLSelectElement) return;
+      if (event.key === 'Escape') {
+        setDrawingTool(null);
+        setSelectedDrawing(null);
       }
+      if ((event.key === 'Delete' || event.key === 'Backspace') && selectedDrawing) deleteDrawing(selectedDrawing);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [selectedDrawing, drawingSet]);
 
-      // Recalcula geometria para garantir precisão
-      const distHigh = Math.abs(d.topoFundo! - d.high);
-      const distLow = Math.abs(d.topoFundo! - d.low);
-      const isTop = distHigh <= distLow;
+  // Séries do gráfico (agregação + zigzag + tijolos) calculadas no worker.
+  // A série anterior continua visível até a nova ficar pronta.
+  // brickSize/tickSize/boxPercent: valores efetivamente usados (no automático, calculados no worker)
+  const [series, setSeries] = useState<{ chartType: ChartType; points: (AreaSeriesPoint | RenkoSeriesPoint)[]; brickSize: number; tickSize?: number; boxPercent?: number; zones: PriceZone[] }>({ chartType, points: [], brickSize, zones: [] });
+  const [isProcessing, setIsProcessing] = useState(false);
 
-      return {
-        ...d,
-        topoFundoPoint: isTop ? d.high : d.low, // Ancoragem exata no preço
-        isTopSignal: isTop
-      };
-    });
-  }, [data, chartType]);
-
-  // Processamento de dados para Renko
-  const renkoData = useMemo(() => {
-    if (chartType !== 'renko') return [];
-    
-    const bricks = calculateRenkoBricks(data, brickSize);
-    
-    // 1. Executa o filtro de relevância nos tijolos
-    const relevantIndices = filterRelevantSignals(bricks);
-
-    return bricks.map((b, i) => {
-      const isRelevant = relevantIndices.has(i);
-      
-      if (!isRelevant) {
-          return { ...b, topoFundoPoint: null, isTopSignal: undefined };
-      }
+  useEffect(() => {
+    if (!data || data.length === 0) return;
 
-      const high = b.wickBounds[1];
-      const low = b.wickBounds[0];
-      
-      const distHigh = Math.abs((b.topoFundo || 0) - high);
-      const distLow = Math.abs((b.topoFundo || 0) - low);
-      const isTop = distHigh <= distLow;
-
-      return {
-        ...b,
-        topoFundoPoint: isTop ? high : low,
-        isTopSignal: isTop
-      };
+    const needsResample = !!timeframe && !!activeTimeframe && !isSameTimeframe(timeframe, activeTimeframe);
+    const task = buildSeriesInWorker({
+      chartType,
+      data,
+      brickSize,
+      brickSizing: isAutoBrick ? { ...brickSizing, tickSize: brickSizing.tickSize ?? tickSize } : undefined,
+      renkoOptions,
+      base: needsResample ? timeframe : undefined,
+      target: needsResample ? activeTimeframe : undefined,
+      indicators: seriesIndicators,
+      formulas: formulaRequest,
     });
-  }, [data, brickSize, chartType]);
+    setIsProcessing(true);
+
+    task.promise
+      .then(({ points, brickSize: usedBrickSize, tickSize, boxPercent, zones }) => {
+        setSeries({ chartType, points, brickSize: usedBrickSize, tickSize, boxPercent, zones });
+        setIsProcessing(false);
+        onSeriesChange?.(data, { points, zones });
+      })
+      .catch(err => {
+        // Cancelamento acontece quando os parâmetros mudam antes do fim: a próxima tarefa assume
+        if (!isCancelled(err)) {
+          console.error("Falha ao gerar série do gráfico", err);
+          setIsProcessing(false);
+          onSeriesChange?.(data, { points: [], zones: [] });
+        }
+      });
+
+    return () => task.cancel();
+  }, [data, timeframe, activeTimeframe, chartType, brickSize, renkoReversal, renkoSource, intrabarOrder, isAutoBrick && JSON.stringify(brickSizing), isAutoBrick && tickSize, JSON.stringify(seriesIndicators), JSON.stringify(formulaRequest)]);
+
+  const areaData = series.chartType === 'area' ? (series.points as AreaSeriesPoint[]) : [];
+  const renkoData = series.chartType === 'renko' ? (series.points as RenkoSeriesPoint[]) : [];
+
+  // Definição dos dados ativos (segue a série pronta, não o seletor, para não misturar formatos)
+  const activeData: any[] = series.chartType === 'renko' ? renkoData : areaData;
+  const xKey = series.chartType === 'renko' ? 'index' : 'date';
 
-  // Definição dos dados ativos
-  const activeData = chartType === 'renko' ? renkoData : areaData;
+  // Zonas calculadas no worker sobre a série inteira exibida (candles no timeframe escolhido ou tijolos)
+  const priceZones = showZones ? series.zones : [];
 
-  // Cálculo do domínio Y
-  const yDomain = useMemo(() => {
-    if (activeData.length === 0) return ['auto', 'auto'];
+  // Índice de cada ponto na série completa (os desenhos são posicionados pela série inteira)
+  const indexOfPoint = useMemo(() => {
+    const positions = new Map<any, number>(activeData.map((d, i) => [d, i]));
+    return (point: any) => positions.get(point);
+  }, [activeData]);
+
+  // Janela visível (zoom/arraste/brush). null = série inteira; volta ao todo quando a série muda de formato ou tamanho.
+  const [viewRange, setViewRange] = useState<ViewRange | null>(null);
+  const range = clampRange(viewRange, activeData.length);
+  const isZoomed = viewRange !== null;
+  useEffect(() => setViewRange(null), [series.chartType, activeData.length]);
+
+  // Largura do gráfico: limite de pontos desenhados (um por pixel)
+  const plotRef = useRef<HTMLDivElement>(null);
+  const [plotWidth, setPlotWidth] = useState(0);
+  useEffect(() => {
+    const element = plotRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => setPlotWidth(entry.contentRect.width));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [data.length > 0]);
+
+  // Roda do mouse: zoom ancorado no ponto sob o cursor (listener nativo para impedir a rolagem da página)
+  useEffect(() => {
+    const element = plotRef.current;
+    if (!element) return;
+    const handleWheel = (event: WheelEvent) => {
+      if (activeData.length <= 1) return;
+      event.preventDefault();
+      const rect = element.getBoundingClientRect();
+      const anchor = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width));
+      setViewRange(prev => zoomRange(prev, activeData.length, event.deltaY > 0 ? 1.2 : 1 / 1.2, anchor));
+    };
+    element.addEventListener('wheel', handleWheel, { passive: false });
+    return () => element.removeEventListener('wheel', handleWheel);
+  }, [activeData.length, data.length > 0]);
+
+  // Arrastar com o botão esquerdo desloca a janela
+  const dragRef = useRef<{ x: number; range: ViewRange } | null>(null);
+  const handlePanStart = (event: React.MouseEvent) => {
+    if (event.button !== 0 || !viewRange || drawingTool) return;
+    dragRef.current = { x: event.clientX, range: viewRange };
+  };
+  const handlePanMove = (event: React.MouseEvent) => {
+    const drag = dragRef.current;
+    if (!drag || plotWidth === 0) return;
+    const count = drag.range.end - drag.range.start + 1;
+    const delta = Math.round(((drag.x - event.clientX) / plotWidth) * count);
+    setViewRange(panRange(drag.range, activeData.length, delta));
+  };
+  const handlePanEnd = () => { dragRef.current = null; };
+
+  // Pontos desenhados: a janela visível, reduzida por mínimo/máximo quando excede a largura em pixels.
+  // Preço e painéis usam os mesmos pontos; os extremos de cada painel visível também são mantidos.
+  const paneFields = [
+    ...visiblePanes.flatMap(pane => PANE_TOOLTIP_FIELDS[pane].map(field => (d: any) => d[field.key])),
+    ...formulaPanes.map(({ id }) => (d: any) => d.formulas?.[id]),
+  ];
+  const chartData = useMemo(() => {
+    const visible = activeData.slice(range.start, range.end + 1);
+    if (plotWidth === 0) return visible;
+    const isLine = series.chartType === 'area' && priceStyle === 'line';
+    const price: PointExtent<any> = d => (isLine ? [d.close, d.close] : d.wickBounds ? d.wickBounds : [d.low, d.high]);
+    const panes = paneFields.map((value): PointExtent<any> => d => {
+      const v = value(d);
+      return typeof v === 'number' && isFinite(v) ? [v, v] : undefined;
+    });
+    return downsampleMinMax(visible, Math.floor(plotWidth), [price, ...panes], (d: any) => d.isTopSignal !== undefined);
+  }, [activeData, range.start, range.end, plotWidth, priceStyle, visiblePanes.join(), formulaPanes.map(i => i.id).join()]);
+
+  // Extremos do eixo Y (seguem a janela visível)
+  const yExtent = useMemo(() => {
+    const visible = activeData.slice(range.start, range.end + 1);
+    if (visible.length === 0) return null;
 
     let min = Infinity;
     let max = -Infinity;
 
-    activeData.forEach((d: any) => {
+    visible.forEach((d: any) => {
       // Preço Base
       const l = d.low !== undefined ? d.low : (d.wickBounds ? d.wickBounds[0] : d.close);
       const h = d.high !== undefined ? d.high : (d.wickBounds ? d.wickBounds[1] : d.close);
@@ -223,17 +403,106 @@ const Chart: React.FC<ChartProps> = ({ data, initialChartType = 'area', initialB
          if (d.topoFundoPoint > max) max = d.topoFundoPoint;
          if (d.topoFundoPoint < min) min = d.topoFundoPoint;
       }
+
+      formulaOverlays.forEach(indicator => {
+         const value = d.formulas?.[indicator.id];
+         if (value === undefined || isNaN(value)) return;
+         if (value > max) max = value;
+         if (value < min) min = value;
+      });
     });
 
-    const padding = (max - min) * 0.1 || (max * 0.01); 
-    
-    if (min === Infinity || max === -Infinity) return ['auto', 'auto'];
+    if (min === Infinity || max === -Infinity) return null;
+
+    return { min, max };
+  }, [activeData, range.start, range.end, showMM72, showJMA, showSignals, formulaOverlays.map(i => i.id).join('|')]);
+
+  // Log exige valores positivos (ex: indicador do usuário negativo sobre o preço): volta ao linear
+  const canUseLog = !yExtent || yExtent.min > 0;
+  const effectiveScale: PriceScale = priceScale === 'log' && !canUseLog ? 'linear' : priceScale;
+  // Base da escala percentual: fechamento da primeira barra visível
+  const percentBase: number | undefined = activeData[range.start]?.close;
 
-    return [min - padding, max + padding];
-  }, [activeData, showMM72, showJMA, showSignals]);
+  const yDomain = yExtent ? paddedDomain(yExtent.min, yExtent.max, effectiveScale) : undefined;
+  const yTicks = !yDomain ? undefined
+    : effectiveScale === 'log' ? logTicks(...yDomain)
+    : effectiveScale === 'percent' && percentBase ? percentTicks(...yDomain, percentBase)
+    : undefined; // Linear: marcações automáticas do Recharts
+  const formatYTick = (val: number) => (effectiveScale === 'percent' && percentBase
+    ? formatPercent(toPercent(val, percentBase))
+    : val.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' }));
+
+  // Modo em tela: percentual (log), automático (valor calculado) ou manual
+  const renkoLabel = (brickSizing.mode === 'log'
+    ? `${brickSizing.logPercent}% log`
+    : `${formatBrickSize(isAutoBrick ? series.brickSize : brickSize)}${isAutoBrick ? ' auto' : ''}`
+  ) + (renkoReversal !== 1 ? ` · rev. ${renkoReversal}` : '') + (renkoSource === 'highLow' ? ' · máx/mín' : '');
+
+  // Fixa um tamanho manual (ex: o valor calculado no automático)
+  const pinBrickSize = (size: number) => {
+    setBrickSize(size);
+    setBrickSizing({ ...brickSizing, mode: 'manual' });
+  };
+
+  // Exporta exatamente a série em tela (datas normalizadas, sinais relevantes, tijolos com bounds/wickBounds)
+  const handleExport = (format: ExportFormat) => {
+    downloadSeries({
+      chartType: series.chartType,
+      points: series.points,
+      ticker,
+      timeframe: activeTimeframe,
+      brickSize: series.brickSize,
+      boxPercent: series.boxPercent,
+      renkoOptions,
+      priceMode,
+      formulas: visibleFormulas.map(({ id, name }) => ({ id, name })),
+    }, format);
+  };
 
   if (!data || data.length === 0) return null;
 
+  // Indicador do usuário desenhado sobre o preço
+  const renderFormulaOverlay = (indicator: UserIndicator) => (
+    <Line
+      key={indicator.id}
+      type="monotone"
+      dataKey={(point: any) => point.formulas?.[indicator.id]}
+      name={indicator.name}
+      stroke={indicator.color}
+      strokeWidth={2}
+      dot={false}
+      activeDot={false}
+      connectNulls={true}
+      isAnimationActive={false}
+    />
+  );
+
+  const zoneBands = priceZones.map(zone => (
+    <ReferenceArea
+      key={`zone-${zone.low}-${zone.high}`}
+      y1={zone.low}
+      y2={zone.high}
+      ifOverflow="hidden"
+      fill={zone.kind === 'support' ? '#10b981' : '#ef4444'}
+      fillOpacity={0.05 + (0.15 * zone.strength) / 100}
+      stroke="none"
+    />
+  ));
+
+  const drawingLayer = (
+    <DrawingLayer
+      drawings={drawingSet.drawings}
+      chartData={chartData}
+      seriesData={activeData}
+      indexOf={indexOfPoint}
+      xKey={xKey}
+      tool={drawingTool}
+      selectedId={selectedDrawing}
+      onCreate={handleCreateDrawing}
+      onSelect={setSelectedDrawing}
+    />
+  );
+
   // Custom Tooltip Expandido
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
@@ -242,9 +511,9 @@ const Chart: React.FC<ChartProps> = ({ data, initialChartType = 'area', initialB
         <div className="bg-slate-900 border border-slate-600 p-3 rounded-lg shadow-xl text-slate-200 text-xs z-50 min-w-[180px]">
           <div className="flex justify-between items-center mb-2 border-b border-slate-700 pb-2">
             <span className="font-semibold text-slate-300">
-                {chartType === 'renko' ? `Data: ${item.date}` : `Data: ${item.date}`}
+                {`Data: ${formatTooltipLabel(item.date)}`}
             </span>
-            {chartType === 'renko' && (
+            {series.chartType === 'renko' && (
                 <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold ${item.type === 'up' ? 'bg-emerald-500/20 text-emerald-400' : 'bg-red-500/20 text-red-400'}`}>
                     {item.type === 'up' ? 'COMPRA' : 'VENDA'}
                 </span>
@@ -256,13 +525,20 @@ const Chart: React.FC<ChartProps> = ({ data, initialChartType = 'area', initialB
               <span className="text-right font-mono">{item.open.toFixed(2)}</span>
               
               <span className="text-slate-500">Máxima:</span>
-              <span className="text-right font-mono text-emerald-400/80">{chartType === 'renko' ? item.wickBounds[1].toFixed(2) : item.high.toFixed(2)}</span>
+              <span className="text-right font-mono text-emerald-400/80">{series.chartType === 'renko' ? item.wickBounds[1].toFixed(2) : item.high.toFixed(2)}</span>
               
               <span className="text-slate-500">Mínima:</span>
-              <span className="text-right font-mono text-red-400/80">{chartType === 'renko' ? item.wickBounds[0].toFixed(2) : item.low.toFixed(2)}</span>
+              <span className="text-right font-mono text-red-400/80">{series.chartType === 'renko' ? item.wickBounds[0].toFixed(2) : item.low.toFixed(2)}</span>
               
               <span className="text-slate-400 font-bold">Fechamento:</span>
               <span className="text-right font-mono font-bold">{item.close.toFixed(2)}</span>
+
+              {effectiveScale === 'percent' && !!percentBase && (
+                <>
+                  <span className="text-slate-500">Var. na janela:</span>
+                  <span className="text-right font-mono">{formatPercent(toPercent(item.close, percentBase))}</span>
+                </>
+              )}
           </div>
 
           {(item.mm72 || item.jma || item.isTopSignal !== undefined) && (
@@ -289,6 +565,34 @@ const Chart: React.FC<ChartProps> = ({ data, initialChartType = 'area', initialB
                 )}
             </div>
           )}
+
+          {visibleFormulas.length > 0 && (
+            <div className="border-t border-slate-700 pt-2 mt-2 space-y-1">
+                {visibleFormulas.map(indicator => (
+                <div key={indicator.id} className="flex justify-between" style={{ color: indicator.color }}>
+                    <span>{indicator.name}:</span>
+                    <span className="font-mono">{item.formulas?.[indicator.id]?.toFixed(2) ?? '—'}</span>
+                </div>
+                ))}
+            </div>
+          )}
+
+          {visiblePanes.length > 0 && (
+            <div className="border-t border-slate-700 pt-2 mt-2 space-y-1">
+                {visiblePanes.flatMap(pane => PANE_TOOLTIP_FIELDS[pane]).map(field => (
+                <div key={field.key} className={`flex justify-between ${field.color}`}>
+                    <span>{field.label}:</span>
+                    <span className="font-mono">
+                        {item[field.key] === undefined || item[field.key] === null
+                          ? '—'
+                          : field.key === 'volume'
+                            ? Math.round(item[field.key]).toLocaleString('pt-BR')
+                            : item[field.key].toFixed(2)}
+                    </span>
+                </div>
+                ))}
+            </div>
+          )}
         </div>
       );
     }
@@ -304,18 +608,24 @@ const Chart: React.FC<ChartProps> = ({ data, initialChartType = 'area', initialB
           <div className="flex items-center gap-4">
               <h3 className="text-sm font-medium text-slate-400 flex items-center gap-2">
                 <span className={`w-2 h-2 rounded-full ${chartType === 'renko' ? 'bg-blue-500' : 'bg-emerald-500'}`}></span>
-                {chartType === 'renko' ? `Renko (${brickSize}R)` : 'Candle/Linha'}
+                {chartType === 'renko' ? `Renko (${renkoLabel})` : PRICE_STYLES.find(s => s.id === priceStyle)?.label}
+                {activeTimeframe && <span className="text-xs text-slate-500">· {formatTimeframe(activeTimeframe)}</span>}
+                {priceMode === 'adjusted' && <span className="text-xs text-amber-400/80">· Ajustado</span>}
+                {effectiveScale !== 'linear' && <span className="text-xs text-slate-500">· Escala {effectiveScale === 'log' ? 'log' : '% desde a 1ª barra visível'}</span>}
               </h3>
               
               {/* Seletor de Tipo */}
               <div className="flex items-center gap-1 bg-slate-900 p-1 rounded-lg border border-slate-700">
+                {PRICE_STYLES.map(style => (
                 <button
-                onClick={() => setChartType('area')}
-                className={`p-1.5 rounded transition-all ${chartType === 'area' ? 'bg-emerald-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
-                title="Gráfico de Linha/Área"
+                key={style.id}
+                onClick={() => { setChartType('area'); setPriceStyle(style.id); }}
+                className={`p-1.5 rounded transition-all ${chartType === 'area' && priceStyle === style.id ? 'bg-emerald-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
+                title={`Gráfico de ${style.label}`}
                 >
-                <Activity size={16} />
+                {style.icon}
                 </button>
+                ))}
                 <button
                 onClick={() => setChartType('renko')}
                 className={`p-1.5 rounded transition-all ${chartType === 'renko' ? 'bg-blue-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
@@ -324,6 +634,45 @@ const Chart: React.FC<ChartProps> = ({ data, initialChartType = 'area', initialB
                 <BarChart2 size={16} />
                 </button>
             </div>
+
+              {/* Escala do eixo de preço */}
+              <div className="flex items-center gap-1 bg-slate-900 p-1 rounded-lg border border-slate-700">
+                {(Object.keys(PRICE_SCALE_LABELS) as PriceScale[]).map(scale => {
+                  const unavailable = scale === 'log' && !canUseLog;
+                  return (
+                    <button
+                      key={scale}
+                      onClick={() => setPriceScale(scale)}
+                      disabled={unavailable}
+                      className={`text-xs px-2 py-1 rounded transition-all ${effectiveScale === scale ? 'bg-slate-600 text-white shadow' : 'text-slate-400 hover:text-white'} disabled:opacity-40 disabled:hover:text-slate-400`}
+                      title={unavailable
+                        ? 'Escala log indisponível: há valores menores ou iguais a zero na janela'
+                        : scale === 'percent' ? 'Variação % desde o fechamento da primeira barra visível' : `Escala ${PRICE_SCALE_LABELS[scale].toLowerCase()}`}
+                    >
+                      {PRICE_SCALE_LABELS[scale]}
+                    </button>
+                  );
+                })}
+              </div>
+
+              {/* Seletor de Timeframe (alimenta Área e Renko) */}
+              {timeframeOptions.length > 1 && activeTimeframe && (
+                <select
+                  value={`${activeTimeframe.unit}:${activeTimeframe.size}`}
+                  onChange={(e) => {
+                    const selected = timeframeOptions.find(tf => `${tf.unit}:${tf.size}` === e.target.value);
+                    if (selected) setViewTimeframe(selected);
+                  }}
+                  className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200 focus:outline-none cursor-pointer"
+                  title="Timeframe do gráfico"
+                >
+                  {timeframeOptions.map(tf => (
+                    <option key={`${tf.unit}:${tf.size}`} value={`${tf.unit}:${tf.size}`} className="bg-slate-900">
+                      {formatTimeframe(tf)}{timeframe && isSameTimeframe(tf, timeframe) ? ' (original)' : ''}
+                    </option>
+                  ))}
+                </select>
+              )}
           </div>
 
           <div className="flex flex-wrap items-center gap-3">
@@ -353,44 +702,223 @@ const Chart: React.FC<ChartProps> = ({ data, initialChartType = 'area', initialB
                  >
                     {showSignals ? <Eye size={12} /> : <EyeOff size={12} />} Sinais
                  </button>
+
+                 <button 
+                    onClick={() => setShowZones(!showZones)}
+                    className={`text-xs px-2 py-1 rounded border transition-all flex items-center gap-1 ${showZones ? 'bg-amber-500/20 text-amber-400 border-amber-500/50' : 'bg-slate-800 text-slate-500 border-transparent hover:bg-slate-700'}`}
+                    title="Zonas de suporte/resistência detectadas na série exibida"
+                 >
+                    {showZones ? <Eye size={12} /> : <EyeOff size={12} />} Zonas S/R
+                 </button>
              </div>
 
+             {/* Painéis sincronizados abaixo do preço */}
+             <div className="flex items-center gap-2 bg-slate-900 px-3 py-1.5 rounded-lg border border-slate-700">
+                 <span className="text-xs text-slate-500 mr-1 flex items-center gap-1">
+                    <PanelBottom size={12} /> Painéis:
+                 </span>
+
+                 {OSCILLATOR_PANES.map(({ id, label }) => (
+                   <button
+                      key={id}
+                      onClick={() => setPanes({ ...panes, [id]: !panes[id] })}
+                      className={`text-xs px-2 py-1 rounded border transition-all flex items-center gap-1 ${panes[id] ? 'bg-violet-500/20 text-violet-300 border-violet-500/50' : 'bg-slate-800 text-slate-500 border-transparent hover:bg-slate-700'}`}
+                   >
+                      {panes[id] ? <Eye size={12} /> : <EyeOff size={12} />} {label}
+                   </button>
+                 ))}
+             </div>
+
+            {/* Ferramentas de desenho (salvas por ativo e timeframe) */}
+            <div className="flex items-center gap-2 bg-slate-900 px-3 py-1.5 rounded-lg border border-slate-700">
+                <span className="text-xs text-slate-500 mr-1 flex items-center gap-1">
+                   <PenLine size={12} /> Desenhos:
+                </span>
+
+                {(Object.keys(DRAWING_TOOL_LABELS) as DrawingTool[]).map(tool => (
+                  <button
+                     key={tool}
+                     onClick={() => setDrawingTool(drawingTool === tool ? null : tool)}
+                     className={`text-xs px-2 py-1 rounded border transition-all flex items-center gap-1 ${drawingTool === tool ? 'bg-pink-500/20 text-pink-300 border-pink-500/50' : 'bg-slate-800 text-slate-400 border-transparent hover:bg-slate-700'}`}
+                  >
+                     {DRAWING_TOOL_ICONS[tool]} {DRAWING_TOOL_LABELS[tool]}
+                  </button>
+                ))}
+
+                <button
+                   onClick={() => updateDrawingSet({ ...drawingSet, includeInAI: !drawingSet.includeInAI })}
+                   className={`text-xs px-2 py-1 rounded border transition-all flex items-center gap-1 ${drawingSet.includeInAI ? 'bg-purple-500/20 text-purple-300 border-purple-500/50' : 'bg-slate-800 text-slate-500 border-transparent hover:bg-slate-700'}`}
+                   title="Enviar os níveis desenhados como contexto para a IA"
+                >
+                   <Bot size={12} /> IA
+                </button>
+                {drawingSet.drawings.length > 0 && (
+                  <button
+                     onClick={() => updateDrawingSet({ ...drawingSet, drawings: [] })}
+                     className="text-slate-500 hover:text-red-400"
+                     title={`Apagar os ${drawingSet.drawings.length} desenho(s) deste timeframe`}
+                  >
+                     <Trash2 size={12} />
+                  </button>
+                )}
+            </div>
+
+            {/* Exportação da série ativa */}
+            <div className="flex items-center gap-1 bg-slate-900 px-2 py-1 rounded-lg border border-slate-700">
+                <Download size={12} className="text-slate-500" />
+                {(['csv', 'json'] as ExportFormat[]).map(format => (
+                  <button
+                    key={format}
+                    onClick={() => handleExport(format)}
+                    disabled={isProcessing || series.points.length === 0}
+                    className="text-xs px-2 py-1 rounded text-slate-400 hover:text-white hover:bg-slate-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed uppercase"
+                    title={`Exportar ${series.chartType === 'renko' ? 'tijolos Renko' : 'candles'} em ${format.toUpperCase()}`}
+                  >
+                    {format}
+                  </button>
+                ))}
+            </div>
+
             {/* Controles Específicos do Renko */}
             {chartType === 'renko' && (
-              <div className="flex items-center gap-2 bg-slate-950 px-2 py-1 rounded-lg border border-slate-700">
+              <div className="flex items-center gap-2 bg-slate-950 px-2 py-1 rounded-lg border border-slate-700 text-xs text-slate-400">
                 <Settings size={14} className="text-slate-500" />
-                <select 
-                  value={brickSize} 
-                  onChange={(e) => setBrickSize(Number(e.target.value))}
-                  className="bg-transparent text-slate-200 text-xs py-1 focus:outline-none cursor-pointer"
+                <select
+                  value={brickSizing.mode}
+                  onChange={(e) => setBrickSizing({ ...brickSizing, mode: e.target.value as BrickSizeMode })}
+                  className="bg-transparent text-slate-200 py-1 focus:outline-none cursor-pointer"
+                  title="Tamanho do tijolo"
                 >
-                  <option value={0.25} className="bg-slate-900">0.25R</option>
-                  <option value={0.5} className="bg-slate-900">0.50R</option>
-                  <option value={2} className="bg-slate-900">2R</option>
-                  <option value={4} className="bg-slate-900">4R</option>
-                  <option value={6} className="bg-slate-900">6R</option>
-                  <option value={12} className="bg-slate-900">12R</option>
-                  <option value={18} className="bg-slate-900">18R</option>
-                  <option value={25} className="bg-slate-900">25R</option>
-                  <option value={35} className="bg-slate-900">35R</option>
-                  <option value={60} className="bg-slate-900">60R</option>
-                  <option value={80} className="bg-slate-900">80R</option>
-                  <option value={120} className="bg-slate-900">120R</option>
-                  <option value={250} className="bg-slate-900">250R</option>
+                  {(Object.keys(BRICK_MODE_LABELS) as BrickSizeMode[]).map(mode => (
+                    <option key={mode} value={mode} className="bg-slate-900">{BRICK_MODE_LABELS[mode]}</option>
+                  ))}
                 </select>
+
+                {brickSizing.mode === 'log' ? (
+                  <SettingInput compact label="%" title="Variação de cada tijolo (grade logarítmica)" value={brickSizing.logPercent} min={0.01} onCommit={(logPercent) => setBrickSizing({ ...brickSizing, logPercent })} />
+                ) : brickSizing.mode === 'manual' ? (
+                  <select 
+                    value={brickSize} 
+                    onChange={(e) => setBrickSize(Number(e.target.value))}
+                    className="bg-transparent text-slate-200 py-1 focus:outline-none cursor-pointer"
+                  >
+                    {(BRICK_SIZES.includes(brickSize) ? BRICK_SIZES : [...BRICK_SIZES, brickSize].sort((a, b) => a - b)).map(size => (
+                      <option key={size} value={size} className="bg-slate-900">{formatBrickSize(size)}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <>
+                    {brickSizing.mode === 'atr' ? (
+                      <>
+                        <SettingInput compact label="ATR" title="Período do ATR" value={brickSizing.atrPeriod} min={1} onCommit={(atrPeriod) => setBrickSizing({ ...brickSizing, atrPeriod: Math.round(atrPeriod) })} />
+                        <SettingInput compact label="×" title="Múltiplo do ATR" value={brickSizing.atrMultiplier} min={0.01} onCommit={(atrMultiplier) => setBrickSizing({ ...brickSizing, atrMultiplier })} />
+                      </>
+                    ) : (
+                      <SettingInput compact label="%" title="Percentual do último fechamento" value={brickSizing.percent} min={0.01} onCommit={(percent) => setBrickSizing({ ...brickSizing, percent })} />
+                    )}
+                    <SettingInput
+                      compact
+                      label="Tick"
+                      title={brickSizing.tickSize
+                        ? `Tick definido manualmente${tickSize ? ` (inferido: ${tickSize})` : ''}; 0 volta ao inferido`
+                        : 'Tick inferido dos preços brutos do ativo; digite outro valor para substituí-lo'}
+                      value={brickSizing.tickSize ?? tickSize ?? series.tickSize ?? 0}
+                      min={0}
+                      onCommit={(tickSize) => setBrickSizing({ ...brickSizing, tickSize: tickSize > 0 ? tickSize : undefined })}
+                    />
+                    <span className="font-mono text-slate-200" title="Tamanho calculado">
+                      {series.chartType === 'renko' && series.tickSize === undefined && !isProcessing
+                        ? <span className="text-amber-400" title="Série curta demais para o ATR: usando o tamanho manual">= {formatBrickSize(series.brickSize)}*</span>
+                        : `= ${formatBrickSize(series.brickSize)}`}
+                    </span>
+                    <button
+                      onClick={() => pinBrickSize(series.brickSize)}
+                      className="text-slate-500 hover:text-white"
+                      title="Fixar este tamanho (modo manual)"
+                    >
+                      <Pin size={12} />
+                    </button>
+                  </>
+                )}
+
+                <span className="w-px h-4 bg-slate-700"></span>
+                <select
+                  value={renkoSource === 'close' ? 'close' : intrabarOrder}
+                  onChange={(e) => {
+                    const option = RENKO_PATH_OPTIONS.find(o => o.value === e.target.value);
+                    if (!option) return;
+                    setRenkoSource(option.source);
+                    if (option.order) setIntrabarOrder(option.order);
+                  }}
+                  className="bg-transparent text-slate-200 py-1 focus:outline-none cursor-pointer"
+                  title="Preços que formam os tijolos"
+                >
+                  {RENKO_PATH_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value} className="bg-slate-900">{option.label}</option>
+                  ))}
+                </select>
+                <SettingInput
+                  compact
+                  label="Rev."
+                  title="Tijolos contra a tendência para reverter (1 = imediato, 2 = clássico de Profit/TradingView)"
+                  value={renkoReversal}
+                  min={1}
+                  onCommit={(reversal) => setRenkoReversal(Math.round(reversal))}
+                />
               </div>
             )}
           </div>
         </div>
 
-        <div className="flex-1 w-full min-h-0 relative">
-          {chartType === 'renko' && activeData.length === 0 && (
+        <div
+          ref={plotRef}
+          className={`flex-1 w-full min-h-[260px] relative select-none ${isZoomed ? 'cursor-grab active:cursor-grabbing' : ''}`}
+          onMouseDown={handlePanStart}
+          onMouseMove={handlePanMove}
+          onMouseUp={handlePanEnd}
+          onMouseLeave={handlePanEnd}
+          onClick={() => setSelectedDrawing(null)}
+        >
+          <div className="absolute top-2 left-16 z-20 flex items-center gap-2">
+            {isZoomed && (
+              <button
+                onClick={() => setViewRange(null)}
+                className="flex items-center gap-1 px-2 py-1 rounded bg-slate-900/80 border border-slate-700 text-xs text-slate-400 hover:text-white"
+                title="Mostrar a série inteira"
+              >
+                <Maximize2 size={12} /> {range.end - range.start + 1} de {activeData.length}
+              </button>
+            )}
+            {drawingTool && (
+              <span className="px-2 py-1 rounded bg-slate-900/80 border border-slate-700 text-xs text-slate-400">
+                {drawingTool === 'horizontal' ? 'Clique no preço do nível' : drawingTool === 'fibonacci' ? 'Clique nos dois extremos (prende nos topos/fundos)' : 'Clique nos dois pontos'} · Esc cancela
+              </span>
+            )}
+            {selectedDrawing && (
+              <button
+                onClick={() => deleteDrawing(selectedDrawing)}
+                className="flex items-center gap-1 px-2 py-1 rounded bg-slate-900/80 border border-slate-700 text-xs text-slate-400 hover:text-red-400"
+                title="Excluir o desenho selecionado (Delete)"
+              >
+                <Trash2 size={12} /> Excluir desenho
+              </button>
+            )}
+          </div>
+
+          {isProcessing && (
+            <div className="absolute top-2 right-4 z-20 flex items-center gap-2 px-2 py-1 rounded bg-slate-900/80 border border-slate-700 text-xs text-slate-400">
+                <div className="w-3 h-3 border-2 border-slate-600 border-t-emerald-400 rounded-full animate-spin"></div>
+                Processando...
+            </div>
+          )}
+
+          {!isProcessing && series.chartType === 'renko' && activeData.length === 0 && (
             <div className="absolute inset-0 flex flex-col items-center justify-center text-slate-500 z-10 bg-slate-800/80">
                 <AlertTriangle className="w-8 h-8 mb-2 text-yellow-500" />
-                <p>Nenhum tijolo gerado com {brickSize}R.</p>
+                <p>Nenhum tijolo gerado com {series.boxPercent !== undefined ? `${series.boxPercent}%` : formatBrickSize(series.brickSize)}.</p>
                 <p className="text-xs mt-1">O tamanho do R é muito grande para a volatilidade deste ativo.</p>
                 <button 
-                    onClick={() => setBrickSize(1)} 
+                    onClick={() => pinBrickSize(1)} 
                     className="mt-3 px-3 py-1 bg-slate-700 hover:bg-slate-600 rounded text-xs text-white transition-colors"
                 >
                     Tentar 1R
@@ -399,8 +927,8 @@ const Chart: React.FC<ChartProps> = ({ data, initialChartType = 'area', initialB
           )}
 
           <ResponsiveContainer width="100%" height="100%">
-            {chartType === 'area' ? (
-              <ComposedChart data={activeData} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+            {series.chartType === 'area' ? (
+              <ComposedChart data={chartData} syncId={CHART_SYNC_ID} margin={{ top: 10, right: 20, left: 0, bottom: 0 }} barCategoryGap="20%">
                 <defs>
                   <linearGradient id="colorClose" x1="0" y1="0" x2="0" y2="1">
                     <stop offset="5%" stopColor="#10b981" stopOpacity={0.3}/>
@@ -414,24 +942,37 @@ const Chart: React.FC<ChartProps> = ({ data, initialChartType = 'area', initialB
                   fontSize={12} 
                   tickMargin={10}
                   minTickGap={50}
+                  tickFormatter={formatAxisLabel}
                 />
                 <YAxis 
                   stroke="#94a3b8" 
                   fontSize={12} 
-                  domain={yDomain}
-                  tickFormatter={(val) => val.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
+                  scale={effectiveScale === 'log' ? 'log' : 'auto'}
+                  domain={yDomain ?? ['auto', 'auto']}
+                  ticks={yTicks}
+                  tickFormatter={formatYTick}
                 />
-                <Tooltip content={<CustomTooltip />} cursor={{ stroke: 'rgba(255,255,255,0.1)' }} />
+                <Tooltip content={<CustomTooltip />} cursor={priceStyle === 'line' ? { stroke: 'rgba(255,255,255,0.1)' } : { fill: 'rgba(255,255,255,0.05)' }} />
+
+                {zoneBands}
                 
-                <Area 
-                  type="monotone" 
-                  dataKey="close" 
-                  stroke="#10b981" 
-                  fillOpacity={1} 
-                  fill="url(#colorClose)" 
-                  strokeWidth={2}
-                  activeDot={{ r: 6, strokeWidth: 0, fill: '#34d399' }}
-                />
+                {priceStyle === 'line' ? (
+                  <Area 
+                    type="monotone" 
+                    dataKey="close" 
+                    stroke="#10b981" 
+                    fillOpacity={1} 
+                    fill="url(#colorClose)" 
+                    strokeWidth={2}
+                    activeDot={{ r: 6, strokeWidth: 0, fill: '#34d399' }}
+                  />
+                ) : (
+                  <Bar
+                    dataKey={(point: any) => [point.low, point.high]}
+                    shape={<PriceBarShape variant={priceStyle} logScale={effectiveScale === 'log'} />}
+                    isAnimationActive={false}
+                  />
+                )}
 
                 {showMM72 && (
                     <Line 
@@ -459,6 +1000,8 @@ const Chart: React.FC<ChartProps> = ({ data, initialChartType = 'area', initialB
                     />
                 )}
 
+                {formulaOverlays.map(renderFormulaOverlay)}
+
                 {/* Usa topoFundoPoint (Preço) como Y */}
                 {showSignals && (
                     <Scatter 
@@ -468,11 +1011,14 @@ const Chart: React.FC<ChartProps> = ({ data, initialChartType = 'area', initialB
                     isAnimationActive={false}
                     />
                 )}
+
+                {drawingLayer}
               </ComposedChart>
             ) : (
               // RENKO CHART
               <ComposedChart 
-                data={activeData} 
+                data={chartData} 
+                syncId={CHART_SYNC_ID}
                 margin={{ top: 10, right: 20, left: 0, bottom: 0 }} 
                 barGap={0} 
                 barCategoryGap={1} 
@@ -488,11 +1034,15 @@ const Chart: React.FC<ChartProps> = ({ data, initialChartType = 'area', initialB
                 <YAxis 
                   stroke="#94a3b8" 
                   fontSize={12} 
-                  domain={yDomain}
-                  tickFormatter={(val) => val.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
+                  scale={effectiveScale === 'log' ? 'log' : 'auto'}
+                  domain={yDomain ?? ['auto', 'auto']}
+                  ticks={yTicks}
+                  tickFormatter={formatYTick}
                   allowDataOverflow={false}
                 />
                 <Tooltip content={<CustomTooltip />} cursor={{ fill: 'rgba(255,255,255,0.05)' }} />
+
+                {zoneBands}
                 
                 {/* 1. Pavio (Atrás) */}
                 <Bar 
@@ -500,7 +1050,7 @@ const Chart: React.FC<ChartProps> = ({ data, initialChartType = 'area', initialB
                   barSize={2} 
                   isAnimationActive={false}
                 >
-                   {activeData.map((entry: any, index: number) => (
+                   {chartData.map((entry: any, index: number) => (
                       <Cell key={`wick-${index}`} fill={entry.type === 'up' ? '#10b981' : '#ef4444'} />
                    ))}
                 </Bar>
@@ -510,7 +1060,7 @@ const Chart: React.FC<ChartProps> = ({ data, initialChartType = 'area', initialB
                   dataKey="bounds" 
                   isAnimationActive={false}
                 >
-                   {activeData.map((entry: any, index: number) => (
+                   {chartData.map((entry: any, index: number) => (
                       <Cell 
                         key={`body-${index}`} 
                         fill={entry.type === 'up' ? '#10b981' : '#ef4444'} 
@@ -546,6 +1096,8 @@ const Chart: React.FC<ChartProps> = ({ data, initialChartType = 'area', initialB
                     />
                 )}
 
+                {formulaOverlays.map(renderFormulaOverlay)}
+
                 {showSignals && (
                     <Scatter 
                     dataKey="topoFundoPoint" 
@@ -554,10 +1106,61 @@ const Chart: React.FC<ChartProps> = ({ data, initialChartType = 'area', initialB
                     isAnimationActive={false}
                     />
                 )}
+
+                {drawingLayer}
               </ComposedChart>
             )}
           </ResponsiveContainer>
         </div>
+
+        {/* Visão geral da série inteira: o brush seleciona a janela visível (sem syncId, para não recortar os painéis) */}
+        {activeData.length > MIN_BRUSH_POINTS && (
+          <div className="h-12 shrink-0 mt-1">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={activeData} margin={{ top: 0, right: 20, left: 60, bottom: 0 }}>
+                <Brush
+                  dataKey={xKey}
+                  height={44}
+                  startIndex={range.start}
+                  endIndex={range.end}
+                  onChange={({ startIndex, endIndex }) => {
+                    if (startIndex === undefined || endIndex === undefined) return;
+                    setViewRange(startIndex === 0 && endIndex === activeData.length - 1 ? null : { start: startIndex, end: endIndex });
+                  }}
+                  travellerWidth={8}
+                  stroke="#475569"
+                  fill="#0f172a"
+                  tickFormatter={(_, index) => (activeData[index] ? formatAxisLabel(activeData[index].date) : '')}
+                >
+                  <ComposedChart>
+                    <Area type="monotone" dataKey="close" stroke="#64748b" fill="#334155" fillOpacity={0.4} dot={false} isAnimationActive={false} />
+                  </ComposedChart>
+                </Brush>
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+
+        {/* Osciladores calculados sobre a série desenhada (candles ou tijolos), mesmo eixo X do preço */}
+        {visiblePanes.map(pane => (
+          <OscillatorPane
+            key={pane}
+            pane={pane}
+            data={chartData}
+            xKey={xKey}
+            syncId={CHART_SYNC_ID}
+          />
+        ))}
+
+        {formulaPanes.map(indicator => (
+          <FormulaPane
+            key={indicator.id}
+            indicator={indicator}
+            data={chartData}
+            xKey={xKey}
+            syncId={CHART_SYNC_ID}
+          />
+        ))}
       </div>
     </div>
   );
@@ -0,0 +1,249 @@
+import React, { useState, useEffect } from 'react';
+import { X, Columns, Save, CheckCircle, AlertCircle, Trash2 } from 'lucide-react';
+import { ColumnMapping, MappableField, MappingProfile, DateFormat, ResolvedDateFormat, RawCSV } from '../types';
+import { MAPPABLE_FIELDS, isMappingComplete, getHeaderSignature } from '../utils/csvHelper';
+import { loadMappingProfiles, deleteMappingProfile, isProfileNameTaken } from '../utils/mappingProfiles';
+import { DATE_FORMAT_LABELS } from '../utils/dateFormat';
+
+interface ColumnMappingModalProps {
+  isOpen: boolean;
+  fileName: string | null;
+  raw: RawCSV | null;
+  initialMapping: ColumnMapping;
+  initialDateFormat: DateFormat;
+  error?: string | null;
+  onConfirm: (mapping: ColumnMapping, dateFormat: DateFormat, profileName?: string) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 8;
+
+const ColumnMappingModal: React.FC<ColumnMappingModalProps> = ({ isOpen, fileName, raw, initialMapping, initialDateFormat, error, onConfirm, onClose }) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+  const [dateFormat, setDateFormat] = useState<DateFormat>(initialDateFormat);
+  const [saveProfile, setSaveProfile] = useState(true);
+  const [profileName, setProfileName] = useState('');
+  const [profiles, setProfiles] = useState<MappingProfile[]>([]);
+
+  // Reinicia o formulário sempre que um novo arquivo é aberto no assistente
+  useEffect(() => {
+    if (isOpen) {
+      setMapping(initialMapping);
+      setDateFormat(initialDateFormat);
+      setProfileName(fileName ? fileName.replace(/\.csv$/i, '') : '');
+      setProfiles(loadMappingProfiles());
+    }
+  }, [isOpen, initialMapping, initialDateFormat, fileName]);
+
+  if (!isOpen || !raw) return null;
+
+  const handleFieldChange = (field: MappableField, header: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (header) {
+        next[field] = header;
+      } else {
+        delete next[field];
+      }
+      return next;
+    });
+  };
+
+  const handleDeleteProfile = (name: string) => {
+    deleteMappingProfile(name);
+    setProfiles(loadMappingProfiles());
+  };
+
+  const handleConfirm = () => {
+    onConfirm(mapping, dateFormat, saveProfile && profileName.trim() ? profileName.trim() : undefined);
+  };
+
+  // O nome padrão é o do arquivo: outro layout pode já ter um perfil com o mesmo nome
+  const nameTaken = saveProfile && !!profileName.trim() && isProfileNameTaken(profileName.trim(), getHeaderSignature(raw.headers), profiles);
+  const canConfirm = isMappingComplete(mapping);
+  const previewRows = raw.rows.slice(0, PREVIEW_ROWS);
+
+  // Destaca no preview as colunas que já estão associadas a algum campo
+  const mappedHeaders = new Set(Object.values(mapping));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div
+        className="absolute inset-0 bg-slate-950/80 backdrop-blur-sm transition-opacity"
+        onClick={onClose}
+      />
+
+      <div className="relative w-full max-w-5xl max-h-[90vh] bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl flex flex-col overflow-hidden animate-fadeInScale">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-5 border-b border-slate-700 bg-slate-800/80">
+            <div className="flex items-center gap-3">
+                <div className="p-2 bg-emerald-500/10 rounded-lg">
+                    <Columns className="text-emerald-500" size={24} />
+                </div>
+                <div>
+                    <h2 className="text-xl font-bold text-slate-100">Mapeamento de Colunas</h2>
+                    <p className="text-xs text-slate-400">
+                        Associe as colunas de <span className="text-slate-300">{fileName}</span> aos campos do painel.
+                    </p>
+                </div>
+            </div>
+            <button
+                onClick={onClose}
+                className="text-slate-400 hover:text-white transition-colors p-2 rounded-full hover:bg-slate-700"
+            >
+                <X size={24} />
+            </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+
+            {/* 1. PREVIEW */}
+            <div>
+                <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">
+                    Pré-visualização (primeiras {previewRows.length} linhas)
+                </h3>
+                <div className="overflow-x-auto border border-slate-700 rounded-lg">
+                    <table className="w-full text-xs font-mono">
+                        <thead className="bg-slate-800">
+                            <tr>
+                                {raw.headers.map(h => (
+                                    <th key={h} className={`px-3 py-2 text-left whitespace-nowrap ${mappedHeaders.has(h) ? 'text-emerald-400' : 'text-slate-400'}`}>
+                                        {h}
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {previewRows.map((row, i) => (
+                                <tr key={i} className="border-t border-slate-800">
+                                    {raw.headers.map(h => (
+                                        <td key={h} className="px-3 py-1.5 whitespace-nowrap text-slate-300">{String(row[h] ?? '')}</td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            {/* 2. FIELD MAPPING */}
+            <div>
+                <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Campos</h3>
+                <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-3">
+                    {MAPPABLE_FIELDS.map(({ field, label, required }) => (
+                        <label key={field} className="flex flex-col gap-1 bg-slate-800/60 border border-slate-700 rounded-lg p-3">
+                            <span className="text-xs text-slate-400">
+                                {label} {required && <span className="text-red-400">*</span>}
+                            </span>
+                            <select
+                                value={mapping[field] || ''}
+                                onChange={(e) => handleFieldChange(field, e.target.value)}
+                                className={`bg-slate-950 border rounded px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-emerald-500/50 ${required && !mapping[field] ? 'border-red-500/50' : 'border-slate-700'}`}
+                            >
+                                <option value="">— Não mapeado —</option>
+                                {raw.headers.map(h => (
+                                    <option key={h} value={h}>{h}</option>
+                                ))}
+                            </select>
+                        </label>
+                    ))}
+                    <label className="flex flex-col gap-1 bg-slate-800/60 border border-slate-700 rounded-lg p-3">
+                        <span className="text-xs text-slate-400">Formato da Data</span>
+                        <select
+                            value={dateFormat}
+                            onChange={(e) => setDateFormat(e.target.value as DateFormat)}
+                            className="bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                        >
+                            <option value="auto">Automático (arquivo inteiro)</option>
+                            {(Object.keys(DATE_FORMAT_LABELS) as ResolvedDateFormat[]).map(f => (
+                                <option key={f} value={f}>{DATE_FORMAT_LABELS[f]}</option>
+                            ))}
+                        </select>
+                    </label>
+                </div>
+            </div>
+
+            {/* 3. PROFILE */}
+            <div className="bg-slate-800/40 border border-slate-700 rounded-lg p-4 space-y-3">
+                <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={saveProfile}
+                        onChange={(e) => setSaveProfile(e.target.checked)}
+                        className="accent-emerald-500"
+                    />
+                    Salvar como perfil (aplicado automaticamente a arquivos com o mesmo cabeçalho)
+                </label>
+                {saveProfile && (
+                    <input
+                        type="text"
+                        value={profileName}
+                        onChange={(e) => setProfileName(e.target.value)}
+                        placeholder="Ex: Exportação Profit Diário"
+                        className="w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                    />
+                )}
+                {nameTaken && (
+                    <p className="text-xs text-amber-400 flex items-center gap-1">
+                        <AlertCircle size={12} /> Já existe um perfil com este nome para outro cabeçalho. Escolha outro nome.
+                    </p>
+                )}
+
+                {profiles.length > 0 && (
+                    <div className="pt-2 border-t border-slate-700/50">
+                        <span className="text-xs text-slate-500">Perfis salvos:</span>
+                        <div className="flex flex-wrap gap-2 mt-2">
+                            {profiles.map(p => (
+                                <span key={p.name} className="flex items-center gap-1 text-xs px-2 py-1 rounded bg-slate-900 border border-slate-700 text-slate-300">
+                                    {p.name}
+                                    <button
+                                        onClick={() => handleDeleteProfile(p.name)}
+                                        className="text-slate-500 hover:text-red-400"
+                                        title="Excluir perfil"
+                                    >
+                                        <Trash2 size={12} />
+                                    </button>
+                                </span>
+                            ))}
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            {error && (
+                <div className="bg-red-500/10 border border-red-500/20 text-red-200 p-3 rounded-lg flex items-center gap-2 text-sm">
+                    <AlertCircle size={16} className="text-red-500" />
+                    {error}
+                </div>
+            )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between gap-3 p-5 border-t border-slate-700 bg-slate-800/80">
+            <span className={`text-xs flex items-center gap-1 ${canConfirm ? 'text-emerald-500' : 'text-slate-500'}`}>
+                {canConfirm ? <CheckCircle size={12} /> : <AlertCircle size={12} />}
+                {canConfirm ? 'Campos obrigatórios mapeados' : 'Mapeie ao menos Data e Fechamento'}
+            </span>
+            <div className="flex gap-3">
+                <button
+                    onClick={onClose}
+                    className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg border border-slate-700 transition-colors"
+                >
+                    Cancelar
+                </button>
+                <button
+                    onClick={handleConfirm}
+                    disabled={!canConfirm || nameTaken}
+                    className="px-5 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold rounded-lg transition-colors flex items-center gap-2"
+                >
+                    <Save size={16} /> Aplicar Mapeamento
+                </button>
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingModal;
@@ -0,0 +1,175 @@
+import React, { useState, useEffect } from 'react';
+import { Database, Trash2, Pencil, Check, FolderOpen, HardDrive } from 'lucide-react';
+import { StoredDatasetMeta } from '../types';
+import { formatTimeframe } from '../utils/timeHelper';
+import { listStoredDatasets, renameStoredDataset, deleteStoredDataset, getStorageEstimate, formatBytes } from '../utils/datasetLibrary';
+
+interface DatasetLibraryProps {
+  onOpen: (id: string) => void;
+  onRenamed?: (id: string, ticker: string) => void;
+  onDeleted?: (id: string) => void;
+}
+
+const formatImportedAt = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', year: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+const DatasetLibrary: React.FC<DatasetLibraryProps> = ({ onOpen, onRenamed, onDeleted }) => {
+  const [items, setItems] = useState<StoredDatasetMeta[]>([]);
+  const [storage, setStorage] = useState<{ usage: number; quota: number } | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTicker, setDraftTicker] = useState('');
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      const [list, estimate] = await Promise.all([listStoredDatasets(), getStorageEstimate()]);
+      setItems(list);
+      setStorage(estimate);
+      setError(null);
+    } catch (e: any) {
+      console.error("Failed to read dataset library", e);
+      setError("Biblioteca local indisponível neste navegador.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const commitEditing = async () => {
+    const id = editingId;
+    const ticker = draftTicker.trim().toUpperCase();
+    setEditingId(null);
+    if (!id || !ticker) return;
+    await renameStoredDataset(id, ticker);
+    onRenamed?.(id, ticker);
+    refresh();
+  };
+
+  const handleDelete = async (id: string) => {
+    setConfirmDeleteId(null);
+    await deleteStoredDataset(id);
+    onDeleted?.(id);
+    refresh();
+  };
+
+  const libraryBytes = items.reduce((acc, item) => acc + item.sizeBytes, 0);
+
+  if (isLoading || (items.length === 0 && !error)) return null;
+
+  return (
+    <div className="w-full max-w-2xl bg-slate-900/50 border border-slate-800 rounded-2xl p-5 text-left">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="flex items-center gap-2 text-sm font-semibold text-slate-300">
+          <Database size={16} className="text-emerald-500" /> Ativos Recentes
+        </h3>
+        <span className="text-xs text-slate-500">{items.length} salvo(s) · {formatBytes(libraryBytes)}</span>
+      </div>
+
+      {error && <p className="text-xs text-red-400 mb-2">{error}</p>}
+
+      <div className="space-y-1 max-h-72 overflow-y-auto">
+        {items.map(item => (
+          <div
+            key={item.id}
+            className="group flex items-center justify-between gap-3 px-3 py-2 rounded-lg border border-transparent hover:border-slate-700 hover:bg-slate-800/60 transition-colors"
+          >
+            <div className="min-w-0 flex-1">
+              {editingId === item.id ? (
+                <div className="flex items-center gap-1">
+                  <input
+                    autoFocus
+                    value={draftTicker}
+                    onChange={(e) => setDraftTicker(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitEditing();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="w-32 bg-slate-950 border border-slate-700 rounded px-2 py-0.5 text-sm text-white uppercase focus:outline-none focus:ring-1 focus:ring-emerald-500/50"
+                  />
+                  <button onClick={commitEditing} className="text-emerald-400 hover:text-emerald-300">
+                    <Check size={14} />
+                  </button>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold text-sm text-slate-200">{item.ticker}</span>
+                  <span className="text-xs px-1.5 py-0.5 rounded bg-slate-950 border border-slate-800 text-slate-400">
+                    {formatTimeframe(item.timeframe)}
+                  </span>
+                  {item.lastClose !== undefined && (
+                    <span className="text-xs font-mono text-slate-400">{item.lastClose.toFixed(2)}</span>
+                  )}
+                </div>
+              )}
+              <div className="text-xs text-slate-500 truncate">
+                {item.fileName} · {item.pointCount} barras ({item.startDate} a {item.endDate}) · importado em {formatImportedAt(item.importedAt)}
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2 shrink-0">
+              <span className="text-xs text-slate-600 font-mono">{formatBytes(item.sizeBytes)}</span>
+              {confirmDeleteId === item.id ? (
+                <>
+                  <button
+                    onClick={() => handleDelete(item.id)}
+                    className="text-xs px-2 py-1 rounded bg-red-500/10 border border-red-500/30 text-red-400 hover:bg-red-500/20"
+                  >
+                    Excluir
+                  </button>
+                  <button onClick={() => setConfirmDeleteId(null)} className="text-xs text-slate-500 hover:text-slate-300">
+                    Cancelar
+                  </button>
+                </>
+              ) : (
+                <>
+                  <button
+                    onClick={() => { setEditingId(item.id); setDraftTicker(item.ticker); }}
+                    className="opacity-0 group-hover:opacity-100 text-slate-500 hover:text-white transition-opacity"
+                    title="Renomear ticker"
+                  >
+                    <Pencil size={14} />
+                  </button>
+                  <button
+                    onClick={() => setConfirmDeleteId(item.id)}
+                    className="opacity-0 group-hover:opacity-100 text-slate-500 hover:text-red-400 transition-opacity"
+                    title="Excluir da biblioteca"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                  <button
+                    onClick={() => onOpen(item.id)}
+                    className="flex items-center gap-1 text-xs px-2 py-1 rounded bg-emerald-600/20 border border-emerald-500/30 text-emerald-400 hover:bg-emerald-600/30"
+                  >
+                    <FolderOpen size={12} /> Abrir
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {storage && storage.quota > 0 && (
+        <div className="mt-4 pt-3 border-t border-slate-800">
+          <div className="flex items-center justify-between text-xs text-slate-500 mb-1">
+            <span className="flex items-center gap-1"><HardDrive size={12} /> Armazenamento do navegador</span>
+            <span className="font-mono">{formatBytes(storage.usage)} de {formatBytes(storage.quota)}</span>
+          </div>
+          <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-emerald-500/60"
+              style={{ width: `${Math.min(100, (storage.usage / storage.quota) * 100).toFixed(1)}%` }}
+            ></div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DatasetLibrary;
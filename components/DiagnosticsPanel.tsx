@@ -0,0 +1,82 @@
+import React, { useState, useEffect } from 'react';
+import { ChevronDown, ChevronRight, ShieldCheck, AlertTriangle, AlertCircle, Info } from 'lucide-react';
+import { ImportDiagnostics, DiagnosticSeverity } from '../types';
+
+interface DiagnosticsPanelProps {
+  diagnostics: ImportDiagnostics;
+}
+
+// Quantidade máxima de linhas/datas listadas por achado antes de resumir com "+N"
+const MAX_LISTED = 12;
+
+const SEVERITY_STYLES: Record<DiagnosticSeverity, { icon: React.ReactNode; className: string }> = {
+  error: { icon: <AlertCircle size={14} className="text-red-400" />, className: 'border-red-500/30 bg-red-500/5' },
+  warning: { icon: <AlertTriangle size={14} className="text-amber-400" />, className: 'border-amber-500/30 bg-amber-500/5' },
+  info: { icon: <Info size={14} className="text-slate-400" />, className: 'border-slate-700 bg-slate-900/40' },
+};
+
+const summarizeList = (items: (string | number)[]) => {
+  const listed = items.slice(0, MAX_LISTED).join(', ');
+  return items.length > MAX_LISTED ? `${listed} (+${items.length - MAX_LISTED})` : listed;
+};
+
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ diagnostics }) => {
+  const errors = diagnostics.findings.filter(f => f.severity === 'error').length;
+  const warnings = diagnostics.findings.filter(f => f.severity === 'warning').length;
+
+  // Abre automaticamente quando há erros: o usuário deve revisá-los antes de confiar no sinal
+  const [isOpen, setIsOpen] = useState(errors > 0);
+
+  useEffect(() => {
+    setIsOpen(errors > 0);
+  }, [diagnostics, errors]);
+
+  const isClean = diagnostics.findings.length === 0;
+
+  return (
+    <div className="bg-slate-800/40 rounded-xl border border-slate-800">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between gap-4 px-4 py-3 text-left"
+      >
+        <div className="flex items-center gap-2 text-sm">
+          {isOpen ? <ChevronDown size={16} className="text-slate-500" /> : <ChevronRight size={16} className="text-slate-500" />}
+          <ShieldCheck size={16} className={errors > 0 ? 'text-red-400' : warnings > 0 ? 'text-amber-400' : 'text-emerald-500'} />
+          <span className="font-medium text-slate-300">Qualidade dos Dados</span>
+          <span className="text-xs text-slate-500">
+            {diagnostics.validRows} de {diagnostics.totalRows} linhas importadas
+          </span>
+        </div>
+        <div className="flex items-center gap-2 text-xs">
+          {errors > 0 && <span className="px-2 py-0.5 rounded-full bg-red-500/10 text-red-400 border border-red-500/30">{errors} erro(s)</span>}
+          {warnings > 0 && <span className="px-2 py-0.5 rounded-full bg-amber-500/10 text-amber-400 border border-amber-500/30">{warnings} alerta(s)</span>}
+          {isClean && <span className="px-2 py-0.5 rounded-full bg-emerald-500/10 text-emerald-400 border border-emerald-500/30">Sem problemas</span>}
+        </div>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-2 animate-fadeIn">
+          {isClean && (
+            <p className="text-xs text-slate-500">Nenhuma inconsistência encontrada no arquivo.</p>
+          )}
+          {diagnostics.findings.map((finding, i) => (
+            <div key={i} className={`border rounded-lg px-3 py-2 text-xs ${SEVERITY_STYLES[finding.severity].className}`}>
+              <div className="flex items-center gap-2 text-slate-200">
+                {SEVERITY_STYLES[finding.severity].icon}
+                {finding.message}
+              </div>
+              {finding.lines && finding.lines.length > 0 && (
+                <div className="mt-1 ml-6 text-slate-500 font-mono">Linhas: {summarizeList(finding.lines)}</div>
+              )}
+              {finding.dates && finding.dates.length > 0 && (
+                <div className="mt-1 ml-6 text-slate-500 font-mono">Datas: {summarizeList(finding.dates)}</div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DiagnosticsPanel;
@@ -0,0 +1,214 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { DefaultZIndexes, usePlotArea, useXAxisScale, useYAxisInverseScale, useYAxisScale, ZIndexLayer } from 'recharts';
+import { ChartDrawing, DrawingAnchor, DrawingTool } from '../types';
+import { DRAWING_COLORS, FIB_LEVELS, fibPrice, lowerBoundByDate } from '../utils/chartDrawings';
+
+interface DrawingLayerProps {
+  drawings: ChartDrawing[];
+  chartData: any[]; // Pontos desenhados (janela visível, possivelmente reduzida)
+  seriesData: any[]; // Série completa: as âncoras são resolvidas pela data
+  indexOf: (point: any) => number | undefined; // Índice de um ponto desenhado na série completa
+  xKey: string;
+  tool: DrawingTool | null;
+  selectedId: string | null;
+  onCreate: (tool: DrawingTool, anchors: DrawingAnchor[]) => void;
+  onSelect: (id: string | null) => void;
+}
+
+// Distância máxima (px) para o Fibonacci prender a âncora em um topo/fundo
+const PIVOT_SNAP_PX = 12;
+
+const CLIP_ID = 'chart-drawings-clip';
+
+// Acima de barras, linhas e marcadores T/F: os desenhos e a captura de cliques ficam por cima das séries
+const DRAWING_Z_INDEX = DefaultZIndexes.scatter + 100;
+
+// Segmento com uma faixa transparente mais larga por baixo, para facilitar o clique de seleção
+const Segment: React.FC<React.SVGProps<SVGLineElement>> = (props) => (
+  <>
+    <line {...props} stroke="transparent" strokeWidth={10} strokeDasharray={undefined} />
+    <line {...props} />
+  </>
+);
+
+// Camada de desenhos renderizada dentro do gráfico de preço (usa as escalas do Recharts).
+// Com uma ferramenta ativa, captura os cliques: nível horizontal = 1 clique, demais = 2 cliques.
+const DrawingLayer: React.FC<DrawingLayerProps> = ({ drawings, chartData, seriesData, indexOf, xKey, tool, selectedId, onCreate, onSelect }) => {
+  const xScale = useXAxisScale();
+  const yScale = useYAxisScale();
+  const yInverse = useYAxisInverseScale();
+  const plot = usePlotArea();
+  const [draft, setDraft] = useState<DrawingAnchor | null>(null);
+  const [hover, setHover] = useState<DrawingAnchor | null>(null);
+
+  useEffect(() => {
+    setDraft(null);
+    setHover(null);
+  }, [tool]);
+
+  // Posição em pixels de cada ponto desenhado, pelo índice na série completa
+  const positions = useMemo(() => {
+    if (!xScale) return [];
+    return chartData
+      .map(point => ({ index: indexOf(point), x: xScale(point[xKey], { position: 'middle' }) }))
+      .filter((p): p is { index: number; x: number } => p.index !== undefined && p.x !== undefined);
+  }, [chartData, xScale, xKey, indexOf]);
+
+  if (!yScale || !yInverse || !plot || positions.length === 0) return null;
+
+  const first = positions[0];
+  const last = positions[positions.length - 1];
+  const slope = last.index > first.index ? (last.x - first.x) / (last.index - first.index) : plot.width;
+
+  // Índice (fracionário) da série completa -> pixel. Interpola entre os pontos desenhados e extrapola fora da janela.
+  const indexToX = (index: number) => {
+    if (index <= first.index) return first.x + (index - first.index) * slope;
+    if (index >= last.index) return last.x + (index - last.index) * slope;
+    let lo = 0;
+    let hi = positions.length - 1;
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      if (positions[mid].index <= index) lo = mid; else hi = mid;
+    }
+    const a = positions[lo];
+    const b = positions[hi];
+    return a.x + ((index - a.index) / (b.index - a.index)) * (b.x - a.x);
+  };
+
+  const xToIndex = (x: number) => {
+    if (x <= first.x || slope === 0) return first.index + (x - first.x) / (slope || 1);
+    if (x >= last.x) return last.index + (x - last.x) / slope;
+    const k = positions.findIndex(p => p.x >= x);
+    const a = positions[k - 1];
+    const b = positions[k];
+    return a.index + ((x - a.x) / (b.x - a.x)) * (b.index - a.index);
+  };
+
+  const anchorX = (anchor: DrawingAnchor) => indexToX(lowerBoundByDate(seriesData, anchor.date));
+  const anchorY = (anchor: DrawingAnchor) => yScale(anchor.price) ?? 0;
+
+  const toAnchor = (event: React.MouseEvent<SVGRectElement>): DrawingAnchor | null => {
+    const svg = event.currentTarget.ownerSVGElement;
+    if (!svg) return null;
+    const box = svg.getBoundingClientRect();
+    const x = event.clientX - box.left;
+    const y = event.clientY - box.top;
+
+    // Fibonacci: prende no topo/fundo relevante mais próximo
+    if (tool === 'fibonacci') {
+      const pivot = chartData
+        .filter(p => p.isTopSignal !== undefined && p.topoFundoPoint !== null)
+        .map(p => ({ point: p, distance: Math.abs((xScale?.(p[xKey], { position: 'middle' }) ?? Infinity) - x) }))
+        .sort((a, b) => a.distance - b.distance)[0];
+      if (pivot && pivot.distance <= PIVOT_SNAP_PX) return { date: pivot.point.date, price: pivot.point.topoFundoPoint };
+    }
+
+    const index = Math.min(seriesData.length - 1, Math.max(0, Math.round(xToIndex(x))));
+    const price = Number(yInverse(y));
+    const point = seriesData[index];
+    return point && isFinite(price) ? { date: point.date, price } : null;
+  };
+
+  const handleClick = (event: React.MouseEvent<SVGRectElement>) => {
+    event.stopPropagation();
+    const anchor = toAnchor(event);
+    if (!tool || !anchor) return;
+    if (tool === 'horizontal') {
+      onCreate(tool, [anchor]);
+    } else if (!draft) {
+      setDraft(anchor);
+    } else {
+      onCreate(tool, [draft, anchor]);
+      setDraft(null);
+      setHover(null);
+    }
+  };
+
+  const right = plot.x + plot.width;
+
+  const renderDrawing = (drawingTool: DrawingTool, anchors: DrawingAnchor[], color: string, emphasis: 'normal' | 'selected' | 'preview') => {
+    const strokeWidth = emphasis === 'selected' ? 2.5 : 1.5;
+    const dash = emphasis === 'preview' ? '4 3' : undefined;
+    const [a, b] = anchors;
+    const ay = anchorY(a);
+
+    switch (drawingTool) {
+      case 'horizontal':
+        return (
+          <>
+            <Segment x1={plot.x} y1={ay} x2={right} y2={ay} stroke={color} strokeWidth={strokeWidth} strokeDasharray={dash} />
+            <text x={right - 4} y={ay - 4} fill={color} fontSize={10} textAnchor="end">{a.price.toFixed(2)}</text>
+          </>
+        );
+      case 'rectangle': {
+        const [x1, x2] = [anchorX(a), anchorX(b)].sort((p, q) => p - q);
+        const [y1, y2] = [ay, anchorY(b)].sort((p, q) => p - q);
+        return (
+          <rect x={x1} y={y1} width={x2 - x1} height={y2 - y1} fill={color} fillOpacity={0.12} stroke={color} strokeWidth={strokeWidth} strokeDasharray={dash} />
+        );
+      }
+      case 'fibonacci': {
+        const x1 = Math.min(anchorX(a), anchorX(b));
+        return (
+          <>
+            <line x1={anchorX(a)} y1={ay} x2={anchorX(b)} y2={anchorY(b)} stroke={color} strokeWidth={1} strokeDasharray="2 3" />
+            {FIB_LEVELS.map(level => {
+              const price = fibPrice(anchors, level);
+              const y = yScale(price) ?? 0;
+              return (
+                <g key={level}>
+                  <Segment x1={x1} y1={y} x2={right} y2={y} stroke={color} strokeWidth={strokeWidth} strokeOpacity={level === 0 || level === 1 ? 1 : 0.7} strokeDasharray={dash} />
+                  <text x={x1 + 4} y={y - 3} fill={color} fontSize={10}>{`${(level * 100).toFixed(1)}% ${price.toFixed(2)}`}</text>
+                </g>
+              );
+            })}
+          </>
+        );
+      }
+      default:
+        return (
+          <Segment x1={anchorX(a)} y1={ay} x2={anchorX(b)} y2={anchorY(b)} stroke={color} strokeWidth={strokeWidth} strokeDasharray={dash} />
+        );
+    }
+  };
+
+  return (
+    <ZIndexLayer zIndex={DRAWING_Z_INDEX}>
+      <defs>
+        <clipPath id={CLIP_ID}>
+          <rect x={plot.x} y={plot.y} width={plot.width} height={plot.height} />
+        </clipPath>
+      </defs>
+
+      <g clipPath={`url(#${CLIP_ID})`}>
+        {drawings.map(drawing => (
+          <g
+            key={drawing.id}
+            onClick={(event) => { event.stopPropagation(); onSelect(drawing.id); }}
+            style={{ cursor: 'pointer' }}
+          >
+            {renderDrawing(drawing.tool, drawing.anchors, drawing.color, drawing.id === selectedId ? 'selected' : 'normal')}
+          </g>
+        ))}
+
+        {tool && draft && hover && renderDrawing(tool, [draft, hover], DRAWING_COLORS[tool], 'preview')}
+      </g>
+
+      {/* Captura dos cliques enquanto uma ferramenta está ativa */}
+      {tool && (
+        <rect
+          x={plot.x}
+          y={plot.y}
+          width={plot.width}
+          height={plot.height}
+          fill="transparent"
+          style={{ cursor: 'crosshair' }}
+          onClick={handleClick}
+          onMouseMove={(event) => { if (draft) setHover(toAnchor(event)); }}
+        />
+      )}
+    </ZIndexLayer>
+  );
+};
+
+export default DrawingLayer;
@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, SquareFunction, Plus, Pencil, Trash2, Eye, EyeOff, Bot, Check, X } from 'lucide-react';
+import { UserIndicator } from '../types';
+import { compileFormula, FORMULA_FIELDS, FORMULA_FUNCTIONS } from '../utils/formulaEngine';
+import { USER_INDICATOR_COLORS } from '../utils/userIndicators';
+
+interface FormulaPanelProps {
+  indicators: UserIndicator[];
+  onChange: (indicators: UserIndicator[]) => void;
+}
+
+interface Draft {
+  id?: string; // Presente quando editando um indicador existente
+  name: string;
+  formula: string;
+  display: UserIndicator['display'];
+}
+
+const EMPTY_DRAFT: Draft = { name: '', formula: '', display: 'overlay' };
+
+const createIndicatorId = () => `f-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// Resumo da sintaxe exibido abaixo do editor
+const FUNCTION_HELP = Object.entries(FORMULA_FUNCTIONS)
+  .map(([name, fn]) => `${name}(${fn.params.map(p => (p === 'period' ? 'n' : 'x')).join(', ')})`)
+  .join(' · ');
+
+const FormulaPanel: React.FC<FormulaPanelProps> = ({ indicators, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (id: string, patch: Partial<UserIndicator>) =>
+    onChange(indicators.map(i => (i.id === id ? { ...i, ...patch } : i)));
+
+  const handleSave = () => {
+    if (!draft) return;
+    const name = draft.name.trim();
+    const formula = draft.formula.trim();
+
+    if (!name) { setError("Dê um nome ao indicador."); return; }
+    if (indicators.some(i => i.name.toLowerCase() === name.toLowerCase() && i.id !== draft.id)) {
+      setError(`Já existe um indicador chamado "${name}".`);
+      return;
+    }
+    try {
+      compileFormula(formula);
+    } catch (e: any) {
+      setError(e.message);
+      return;
+    }
+
+    if (draft.id) {
+      update(draft.id, { name, formula, display: draft.display });
+    } else {
+      onChange([...indicators, {
+        id: createIndicatorId(),
+        name,
+        formula,
+        display: draft.display,
+        color: USER_INDICATOR_COLORS[indicators.length % USER_INDICATOR_COLORS.length],
+        visible: true,
+        includeInAI: false,
+      }]);
+    }
+    setDraft(null);
+    setError(null);
+  };
+
+  const startEditing = (draftValue: Draft) => {
+    setDraft(draftValue);
+    setError(null);
+  };
+
+  return (
+    <div className="bg-slate-800/40 rounded-xl border border-slate-800">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between gap-4 px-4 py-3 text-left"
+      >
+        <div className="flex items-center gap-2 text-sm">
+          {isOpen ? <ChevronDown size={16} className="text-slate-500" /> : <ChevronRight size={16} className="text-slate-500" />}
+          <SquareFunction size={16} className="text-fuchsia-400" />
+          <span className="font-medium text-slate-300">Indicadores do Usuário</span>
+          <span className="text-xs text-slate-500">
+            {indicators.length === 0 ? 'nenhuma fórmula salva' : `${indicators.length} fórmula(s) · ${indicators.filter(i => i.visible).length} visível(is)`}
+          </span>
+        </div>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-3 animate-fadeIn">
+          {indicators.length > 0 && (
+            <div className="space-y-1">
+              {indicators.map(indicator => (
+                <div key={indicator.id} className="group flex items-center gap-3 px-3 py-1.5 rounded-lg border border-slate-700/60 text-xs">
+                  <input
+                    type="color"
+                    value={indicator.color}
+                    onChange={(e) => update(indicator.id, { color: e.target.value })}
+                    className="w-5 h-5 bg-transparent border-0 cursor-pointer"
+                    title="Cor"
+                  />
+                  <span className="font-semibold text-slate-200">{indicator.name}</span>
+                  <span className="font-mono text-slate-400 truncate flex-1">{indicator.formula}</span>
+                  <span className="text-slate-500">{indicator.display === 'overlay' ? 'sobre o preço' : 'painel'}</span>
+
+                  <button
+                    onClick={() => update(indicator.id, { includeInAI: !indicator.includeInAI })}
+                    className={`flex items-center gap-1 px-2 py-0.5 rounded border transition-all ${indicator.includeInAI ? 'bg-purple-500/20 text-purple-300 border-purple-500/50' : 'bg-slate-800 text-slate-500 border-transparent hover:bg-slate-700'}`}
+                    title="Incluir como coluna nos dados enviados à IA"
+                  >
+                    <Bot size={12} /> IA
+                  </button>
+                  <button
+                    onClick={() => update(indicator.id, { visible: !indicator.visible })}
+                    className="text-slate-400 hover:text-white"
+                    title={indicator.visible ? 'Ocultar' : 'Exibir'}
+                  >
+                    {indicator.visible ? <Eye size={14} /> : <EyeOff size={14} />}
+                  </button>
+                  <button
+                    onClick={() => startEditing({ id: indicator.id, name: indicator.name, formula: indicator.formula, display: indicator.display })}
+                    className="opacity-0 group-hover:opacity-100 text-slate-500 hover:text-white transition-opacity"
+                    title="Editar fórmula"
+                  >
+                    <Pencil size={14} />
+                  </button>
+                  <button
+                    onClick={() => onChange(indicators.filter(i => i.id !== indicator.id))}
+                    className="opacity-0 group-hover:opacity-100 text-slate-500 hover:text-red-400 transition-opacity"
+                    title="Excluir"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {draft ? (
+            <div className="border border-slate-700 rounded-lg p-3 space-y-2 text-xs text-slate-400">
+              <div className="flex flex-wrap items-center gap-3">
+                <input
+                  autoFocus
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="Nome (ex: Spread EMAs)"
+                  className="w-44 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-slate-200 focus:outline-none focus:ring-1 focus:ring-fuchsia-500/50"
+                />
+                <input
+                  value={draft.formula}
+                  onChange={(e) => setDraft({ ...draft, formula: e.target.value })}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+                  placeholder="ema(close, 21) - ema(close, 72)"
+                  className="flex-1 min-w-[240px] font-mono bg-slate-950 border border-slate-700 rounded px-2 py-1 text-slate-200 focus:outline-none focus:ring-1 focus:ring-fuchsia-500/50"
+                />
+                <select
+                  value={draft.display}
+                  onChange={(e) => setDraft({ ...draft, display: e.target.value as UserIndicator['display'] })}
+                  className="bg-slate-950 border border-slate-700 rounded px-2 py-1 text-slate-200 focus:outline-none cursor-pointer"
+                >
+                  <option value="overlay">Sobre o preço</option>
+                  <option value="pane">Painel próprio</option>
+                </select>
+                <button onClick={handleSave} className="text-emerald-400 hover:text-emerald-300" title="Salvar">
+                  <Check size={16} />
+                </button>
+                <button onClick={() => { setDraft(null); setError(null); }} className="text-slate-500 hover:text-slate-300" title="Cancelar">
+                  <X size={16} />
+                </button>
+              </div>
+              {error && <p className="text-red-400">{error}</p>}
+              <p className="text-slate-500">
+                Campos: <span className="font-mono">{FORMULA_FIELDS.join(', ')}</span>. Operadores: <span className="font-mono">+ - * / ( )</span>.
+                {' '}Funções: <span className="font-mono">{FUNCTION_HELP}</span>. Períodos (n) devem ser números inteiros.
+              </p>
+            </div>
+          ) : (
+            <button
+              onClick={() => startEditing(EMPTY_DRAFT)}
+              className="flex items-center gap-1 text-xs px-2 py-1 rounded bg-slate-800 border border-slate-700 text-slate-300 hover:bg-slate-700"
+            >
+              <Plus size={12} /> Novo indicador
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FormulaPanel;
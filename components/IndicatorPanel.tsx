@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Sigma, GitCompare } from 'lucide-react';
+import { IndicatorSettings, PivotThresholdMode } from '../types';
+import { IndicatorComparison, IndicatorSeries } from '../utils/indicatorEngine';
+import { formatTooltipLabel } from '../utils/timeHelper';
+import SettingInput from './SettingInput';
+
+interface IndicatorPanelProps {
+  settings: IndicatorSettings;
+  sources: IndicatorSeries['sources'];
+  computed: string[];
+  comparisons: IndicatorComparison[];
+  onChange: (settings: IndicatorSettings) => void;
+}
+
+const PIVOT_MODE_LABELS: Record<PivotThresholdMode, string> = {
+  percent: '% do preço',
+  absolute: 'Pontos',
+  atr: 'Múltiplo do ATR',
+};
+
+// Linhas mais recentes exibidas na tabela de comparação
+const COMPARISON_ROWS = 10;
+
+const ComparisonTable: React.FC<{ comparison: IndicatorComparison }> = ({ comparison }) => {
+  if (comparison.rows.length === 0) {
+    return <p className="text-xs text-slate-500">{comparison.label}: nenhum valor em comum para comparar.</p>;
+  }
+
+  const recent = comparison.rows.slice(-COMPARISON_ROWS);
+
+  return (
+    <div className="border border-slate-700 rounded-lg p-3 text-xs">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mb-2 text-slate-300">
+        <span className="font-semibold">{comparison.label}</span>
+        <span className="text-slate-500">{comparison.rows.length} pontos</span>
+        <span>Dif. média: <span className="font-mono">{comparison.meanAbsDiff.toFixed(4)}</span> ({comparison.meanPctDiff.toFixed(3)}%)</span>
+        <span>
+          Dif. máxima: <span className="font-mono">{comparison.maxAbsDiff.toFixed(4)}</span>
+          {comparison.maxDiffDate && <span className="text-slate-500"> em {formatTooltipLabel(comparison.maxDiffDate)}</span>}
+        </span>
+      </div>
+      <table className="w-full font-mono">
+        <thead>
+          <tr className="text-slate-500 text-left">
+            <th className="font-normal py-0.5">Data</th>
+            <th className="font-normal py-0.5 text-right">CSV</th>
+            <th className="font-normal py-0.5 text-right">App</th>
+            <th className="font-normal py-0.5 text-right">Diferença</th>
+          </tr>
+        </thead>
+        <tbody>
+          {recent.map(row => {
+            const diff = row.engine - row.csv;
+            return (
+              <tr key={row.date} className="text-slate-300">
+                <td className="py-0.5">{formatTooltipLabel(row.date)}</td>
+                <td className="py-0.5 text-right">{row.csv.toFixed(2)}</td>
+                <td className="py-0.5 text-right">{row.engine.toFixed(2)}</td>
+                <td className={`py-0.5 text-right ${Math.abs(diff) > 0.01 ? 'text-amber-400' : 'text-slate-500'}`}>
+                  {diff >= 0 ? '+' : ''}{diff.toFixed(4)}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+const IndicatorPanel: React.FC<IndicatorPanelProps> = ({ settings, sources, computed, comparisons, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [showDiff, setShowDiff] = useState(false);
+
+  const updateJma = (patch: Partial<IndicatorSettings['jma']>) => onChange({ ...settings, jma: { ...settings.jma, ...patch } });
+  const updatePivots = (patch: Partial<IndicatorSettings['pivots']>) => onChange({ ...settings, pivots: { ...settings.pivots, ...patch } });
+
+  const fromCsv = comparisons.length > 0;
+
+  return (
+    <div className="bg-slate-800/40 rounded-xl border border-slate-800">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between gap-4 px-4 py-3 text-left"
+      >
+        <div className="flex items-center gap-2 text-sm">
+          {isOpen ? <ChevronDown size={16} className="text-slate-500" /> : <ChevronRight size={16} className="text-slate-500" />}
+          <Sigma size={16} className="text-cyan-400" />
+          <span className="font-medium text-slate-300">Indicadores</span>
+          <span className="text-xs text-slate-500">
+            MM72: {sources.mm72 === 'csv' ? 'coluna do CSV' : `EMA(${settings.emaPeriod}) calculada`}
+            {' · '}JMA: {sources.jma === 'csv' ? 'coluna do CSV' : `calculada (${settings.jma.length}/${settings.jma.phase}/${settings.jma.power})`}
+            {' · '}Topos/Fundos: {sources.topoFundo === 'csv' ? 'coluna do CSV' : 'detectados'}
+          </span>
+        </div>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-3 animate-fadeIn">
+          <div className="flex flex-wrap items-center gap-4 text-xs text-slate-400">
+            <SettingInput label="Período da EMA" value={settings.emaPeriod} min={2} onCommit={(emaPeriod) => onChange({ ...settings, emaPeriod: Math.round(emaPeriod) })} />
+            <span className="w-px h-5 bg-slate-700"></span>
+            <SettingInput label="JMA Comprimento" value={settings.jma.length} min={1} onCommit={(length) => updateJma({ length })} />
+            <SettingInput label="Fase" value={settings.jma.phase} min={-100} max={100} onCommit={(phase) => updateJma({ phase })} />
+            <SettingInput label="Power" value={settings.jma.power} min={0.5} onCommit={(power) => updateJma({ power })} />
+
+            {fromCsv && (
+              <button
+                onClick={() => setShowDiff(!showDiff)}
+                className={`flex items-center gap-1 px-2 py-1 rounded border transition-all ${showDiff ? 'bg-cyan-500/20 text-cyan-400 border-cyan-500/50' : 'bg-slate-800 text-slate-400 border-slate-700 hover:bg-slate-700'}`}
+              >
+                <GitCompare size={12} /> Comparar CSV × App
+              </button>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 text-xs text-slate-400">
+            <label className="flex items-center gap-2">
+              Pivots: reversão
+              <select
+                value={settings.pivots.thresholdMode}
+                onChange={(e) => updatePivots({ thresholdMode: e.target.value as PivotThresholdMode })}
+                className="bg-slate-950 border border-slate-700 rounded px-2 py-1 text-slate-200 focus:outline-none cursor-pointer"
+              >
+                {(Object.keys(PIVOT_MODE_LABELS) as PivotThresholdMode[]).map(mode => (
+                  <option key={mode} value={mode}>{PIVOT_MODE_LABELS[mode]}</option>
+                ))}
+              </select>
+            </label>
+            <SettingInput label="Mínima" value={settings.pivots.threshold} min={0} onCommit={(threshold) => updatePivots({ threshold })} />
+            {settings.pivots.thresholdMode === 'atr' && (
+              <SettingInput label="Período ATR" value={settings.pivots.atrPeriod} min={1} onCommit={(atrPeriod) => updatePivots({ atrPeriod: Math.round(atrPeriod) })} />
+            )}
+            <SettingInput label="Força esq." value={settings.pivots.leftBars} min={0} onCommit={(leftBars) => updatePivots({ leftBars: Math.round(leftBars) })} />
+            <SettingInput label="Força dir." value={settings.pivots.rightBars} min={0} onCommit={(rightBars) => updatePivots({ rightBars: Math.round(rightBars) })} />
+          </div>
+
+          {computed.length > 0 && (
+            <ul className="text-xs text-slate-500 list-disc ml-5">
+              {computed.map(line => <li key={line}>{line}</li>)}
+            </ul>
+          )}
+
+          {showDiff && comparisons.map(c => <ComparisonTable key={c.label} comparison={c} />)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IndicatorPanel;
@@ -0,0 +1,147 @@
+import React from 'react';
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+  Cell
+} from 'recharts';
+import { ChartPane, UserIndicator } from '../types';
+import { OSCILLATOR_SETTINGS } from '../utils/oscillators';
+
+const { rsiPeriod, macd, stochastic, atrPeriod } = OSCILLATOR_SETTINGS;
+
+// Ordem de exibição dos painéis e rótulos dos botões
+export const OSCILLATOR_PANES: { id: ChartPane; label: string }[] = [
+  { id: 'volume', label: 'Volume' },
+  { id: 'rsi', label: `IFR(${rsiPeriod})` },
+  { id: 'macd', label: `MACD(${macd.fast},${macd.slow},${macd.signal})` },
+  { id: 'stochastic', label: `Estoc.(${stochastic.kPeriod},${stochastic.dPeriod})` },
+  { id: 'atr', label: `ATR(${atrPeriod})` },
+];
+
+// Linhas exibidas no tooltip principal para cada painel visível
+export const PANE_TOOLTIP_FIELDS: Record<ChartPane, { key: string; label: string; color: string }[]> = {
+  volume: [{ key: 'volume', label: 'Volume', color: 'text-slate-300' }],
+  rsi: [{ key: 'rsi', label: 'IFR', color: 'text-violet-400' }],
+  macd: [
+    { key: 'macd', label: 'MACD', color: 'text-sky-400' },
+    { key: 'macdSignal', label: 'Sinal', color: 'text-orange-400' },
+    { key: 'macdHist', label: 'Histograma', color: 'text-slate-300' },
+  ],
+  stochastic: [
+    { key: 'stochK', label: '%K', color: 'text-sky-400' },
+    { key: 'stochD', label: '%D', color: 'text-orange-400' },
+  ],
+  atr: [{ key: 'atr', label: 'ATR', color: 'text-yellow-400' }],
+};
+
+const compactNumber = new Intl.NumberFormat('pt-BR', { notation: 'compact', maximumFractionDigits: 1 });
+
+// Candle de alta (fechamento >= abertura) ou tijolo de alta
+const isUp = (entry: any) => (entry.type ? entry.type === 'up' : entry.close >= entry.open);
+
+interface OscillatorPaneProps {
+  pane: ChartPane;
+  data: any[];
+  xKey: string; // Mesmo dataKey do eixo X do painel de preço
+  syncId: string; // Compartilha cursor e tooltip com o painel de preço
+}
+
+const OscillatorPane: React.FC<OscillatorPaneProps> = ({ pane, data, xKey, syncId }) => {
+  const label = OSCILLATOR_PANES.find(p => p.id === pane)?.label;
+  const bounded = pane === 'rsi' || pane === 'stochastic';
+  const levels = pane === 'rsi' ? [70, 30] : pane === 'stochastic' ? [80, 20] : [];
+
+  return (
+    <div className="h-28 shrink-0 relative border-t border-slate-700/60">
+      <span className="absolute top-1 left-16 z-10 text-[10px] text-slate-500 pointer-events-none">{label}</span>
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={data} syncId={syncId} margin={{ top: 6, right: 20, left: 0, bottom: 0 }} barGap={0} barCategoryGap={1}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+          <XAxis dataKey={xKey} hide />
+          <YAxis
+            stroke="#94a3b8"
+            fontSize={10}
+            domain={bounded ? [0, 100] : ['auto', 'auto']}
+            ticks={bounded ? levels : undefined}
+            tickFormatter={(val) => (pane === 'volume' ? compactNumber.format(val) : Number(val).toFixed(pane === 'atr' || pane === 'macd' ? 2 : 0))}
+          />
+          {/* Valores aparecem no tooltip do painel de preço; aqui só o cursor sincronizado */}
+          <Tooltip content={() => null} cursor={{ stroke: 'rgba(255,255,255,0.1)' }} />
+
+          {levels.map(level => (
+            <ReferenceLine key={level} y={level} stroke="#475569" strokeDasharray="3 3" />
+          ))}
+
+          {pane === 'volume' && (
+            <Bar dataKey="volume" isAnimationActive={false}>
+              {data.map((entry, index) => (
+                <Cell key={`vol-${index}`} fill={isUp(entry) ? '#10b98199' : '#ef444499'} />
+              ))}
+            </Bar>
+          )}
+
+          {pane === 'rsi' && (
+            <Line type="monotone" dataKey="rsi" stroke="#a78bfa" strokeWidth={1.5} dot={false} connectNulls={true} isAnimationActive={false} />
+          )}
+
+          {pane === 'macd' && (
+            <>
+              <ReferenceLine y={0} stroke="#475569" />
+              <Bar dataKey="macdHist" isAnimationActive={false}>
+                {data.map((entry, index) => (
+                  <Cell key={`hist-${index}`} fill={(entry.macdHist ?? 0) >= 0 ? '#10b98199' : '#ef444499'} />
+                ))}
+              </Bar>
+              <Line type="monotone" dataKey="macd" stroke="#38bdf8" strokeWidth={1.5} dot={false} connectNulls={true} isAnimationActive={false} />
+              <Line type="monotone" dataKey="macdSignal" stroke="#fb923c" strokeWidth={1.5} dot={false} connectNulls={true} isAnimationActive={false} />
+            </>
+          )}
+
+          {pane === 'stochastic' && (
+            <>
+              <Line type="monotone" dataKey="stochK" stroke="#38bdf8" strokeWidth={1.5} dot={false} connectNulls={true} isAnimationActive={false} />
+              <Line type="monotone" dataKey="stochD" stroke="#fb923c" strokeWidth={1.5} dot={false} connectNulls={true} isAnimationActive={false} />
+            </>
+          )}
+
+          {pane === 'atr' && (
+            <Line type="monotone" dataKey="atr" stroke="#facc15" strokeWidth={1.5} dot={false} connectNulls={true} isAnimationActive={false} />
+          )}
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+// Painel de um indicador do usuário exibido fora do preço
+export const FormulaPane: React.FC<{ indicator: UserIndicator; data: any[]; xKey: string; syncId: string }> = ({ indicator, data, xKey, syncId }) => (
+  <div className="h-28 shrink-0 relative border-t border-slate-700/60">
+    <span className="absolute top-1 left-16 z-10 text-[10px] pointer-events-none" style={{ color: indicator.color }}>{indicator.name}</span>
+    <ResponsiveContainer width="100%" height="100%">
+      <ComposedChart data={data} syncId={syncId} margin={{ top: 6, right: 20, left: 0, bottom: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+        <XAxis dataKey={xKey} hide />
+        <YAxis stroke="#94a3b8" fontSize={10} domain={['auto', 'auto']} tickFormatter={(val) => compactNumber.format(val)} />
+        <Tooltip content={() => null} cursor={{ stroke: 'rgba(255,255,255,0.1)' }} />
+        <Line
+          type="monotone"
+          dataKey={(point: any) => point.formulas?.[indicator.id]}
+          stroke={indicator.color}
+          strokeWidth={1.5}
+          dot={false}
+          connectNulls={true}
+          isAnimationActive={false}
+        />
+      </ComposedChart>
+    </ResponsiveContainer>
+  </div>
+);
+
+export default OscillatorPane;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { Layers } from 'lucide-react';
+import { PriceZone } from '../utils/supportResistance';
+import { formatTooltipLabel } from '../utils/timeHelper';
+
+interface PriceZonesPanelProps {
+  zones: PriceZone[];
+  lastClose?: number;
+}
+
+// Escada de zonas (do preço mais alto para o mais baixo), com o último fechamento entre resistências e suportes
+const PriceZonesPanel: React.FC<PriceZonesPanelProps> = ({ zones, lastClose }) => {
+  if (zones.length === 0) return null;
+
+  const resistances = zones.filter(z => z.kind === 'resistance');
+  const supports = zones.filter(z => z.kind === 'support');
+
+  const renderZone = (zone: PriceZone) => {
+    const isSupport = zone.kind === 'support';
+    return (
+      <div key={`${zone.low}-${zone.high}`} className="flex items-center gap-3 px-3 py-1.5 rounded-lg border border-slate-700/60 text-xs">
+        <span className={`w-20 font-medium ${isSupport ? 'text-emerald-400' : 'text-red-400'}`}>{isSupport ? 'Suporte' : 'Resistência'}</span>
+        <span className="w-36 font-mono text-slate-200">{zone.low.toFixed(2)} – {zone.high.toFixed(2)}</span>
+        <span className="w-20 text-slate-400">{zone.touches} toque(s)</span>
+        <span className="w-28 text-slate-400" title={zone.highVolume ? 'Contém um nó de alto volume' : undefined}>
+          {(zone.volumeShare * 100).toFixed(1)}% vol.{zone.highVolume && <span className="text-amber-400"> ●</span>}
+        </span>
+        <div className="flex items-center gap-2 flex-1 min-w-[100px]" title={`Força ${zone.strength}/100`}>
+          <div className="flex-1 h-1.5 rounded bg-slate-700 overflow-hidden">
+            <div className={`h-full ${isSupport ? 'bg-emerald-500' : 'bg-red-500'}`} style={{ width: `${zone.strength}%` }}></div>
+          </div>
+          <span className="w-6 text-right font-mono text-slate-400">{zone.strength}</span>
+        </div>
+        <span className="hidden md:inline w-32 text-right text-slate-500">{zone.lastTouch ? formatTooltipLabel(zone.lastTouch) : 'sem toques'}</span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-slate-800/40 rounded-xl border border-slate-800 px-4 py-3 space-y-2">
+      <div className="flex items-center gap-2 text-sm">
+        <Layers size={16} className="text-amber-400" />
+        <span className="font-medium text-slate-300">Suportes e Resistências</span>
+        <span className="text-xs text-slate-500">agrupados dos topos/fundos relevantes e do perfil de volume</span>
+      </div>
+      <div className="space-y-1">
+        {resistances.map(renderZone)}
+        {lastClose !== undefined && (
+          <div className="flex items-center gap-2 px-3 text-xs text-slate-500">
+            <span className="flex-1 border-t border-dashed border-slate-600"></span>
+            Último fechamento <span className="font-mono text-slate-300">{lastClose.toFixed(2)}</span>
+            <span className="flex-1 border-t border-dashed border-slate-600"></span>
+          </div>
+        )}
+        {supports.map(renderZone)}
+      </div>
+    </div>
+  );
+};
+
+export default PriceZonesPanel;
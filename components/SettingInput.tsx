@@ -0,0 +1,47 @@
+import React, { useState, useEffect } from 'react';
+
+interface SettingInputProps {
+  label: string;
+  value: number;
+  min: number;
+  max?: number;
+  compact?: boolean; // Campo estreito, para barras de controle
+  title?: string;
+  onCommit: (value: number) => void;
+}
+
+// Campo numérico que só aplica ao confirmar (Enter/blur), para não recalcular e pedir novo sinal a cada tecla
+const SettingInput: React.FC<SettingInputProps> = ({ label, value, min, max, compact, title, onCommit }) => {
+  const [draft, setDraft] = useState(String(value));
+
+  useEffect(() => {
+    setDraft(String(value));
+  }, [value]);
+
+  const commit = () => {
+    const parsed = parseFloat(draft);
+    if (!isNaN(parsed) && parsed >= min && (max === undefined || parsed <= max) && parsed !== value) {
+      onCommit(parsed);
+    } else {
+      setDraft(String(value));
+    }
+  };
+
+  return (
+    <label className={`flex items-center ${compact ? 'gap-1' : 'gap-2'}`} title={title}>
+      {label}
+      <input
+        type="number"
+        min={min}
+        max={max}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => { if (e.key === 'Enter') commit(); }}
+        className={`${compact ? 'w-14 px-1 py-0.5' : 'w-20 px-2 py-1'} bg-slate-950 border border-slate-700 rounded text-slate-200 focus:outline-none focus:ring-1 focus:ring-cyan-500/50`}
+      />
+    </label>
+  );
+};
+
+export default SettingInput;
@@ -0,0 +1,113 @@
+import { BrickSizing, ColumnMapping, FinancialDataPoint, RawCSV, Timeframe } from '../types';
+import { ImportOptions, ImportResult } from '../utils/csvHelper';
+import { AreaSeriesPoint, RenkoSeriesPoint, SeriesIndicators } from '../utils/chartSeries';
+import { FormulaDefinition } from '../utils/userIndicators';
+import { RenkoOptions } from '../utils/renkoHelper';
+import { IndicatorInput, IndicatorSeries } from '../utils/indicatorEngine';
+import { PriceZone } from '../utils/supportResistance';
+
+// Tarefas aceitas pelo worker (ver workers/dataWorker.ts)
+export type DataWorkerRequest =
+  | { task: 'read'; file: File }
+  | { task: 'import'; raw: RawCSV; mapping: ColumnMapping; options: Omit<ImportOptions, 'onProgress'> }
+  | { task: 'resample'; data: FinancialDataPoint[]; target: Timeframe; base?: Timeframe }
+  | { task: 'indicators'; dataset: IndicatorInput }
+  | { task: 'series' } & SeriesRequest;
+
+// Série do gráfico: agregação opcional (base -> target) seguida de zigzag/tijolos
+export interface SeriesRequest {
+  chartType: 'area' | 'renko';
+  data: FinancialDataPoint[];
+  brickSize: number;
+  brickSizing?: BrickSizing; // Modos automático e percentual: calculados sobre a série já agregada
+  renkoOptions?: RenkoOptions; // Regra de reversão e preços que formam os tijolos
+  base?: Timeframe;
+  target?: Timeframe;
+  indicators?: SeriesIndicators; // Aplicados aos tijolos e aos candles agregados
+  formulas?: FormulaDefinition[]; // Indicadores do usuário, avaliados sobre a série desenhada
+}
+
+export interface SeriesResult {
+  points: AreaSeriesPoint[] | RenkoSeriesPoint[];
+  brickSize: number; // Tamanho efetivamente usado nos tijolos
+  tickSize?: number; // Presente quando o tamanho foi calculado automaticamente
+  boxPercent?: number; // Presente na grade percentual (tijolos de variação fixa em %)
+  zones: PriceZone[]; // Suportes/resistências da série inteira (gráfico, painel e contexto da IA)
+}
+
+export type DataWorkerResponse =
+  | { type: 'progress'; fraction: number }
+  | { type: 'done'; result: unknown }
+  | { type: 'error'; message: string };
+
+export interface WorkerTask<T> {
+  promise: Promise<T>;
+  cancel: () => void;
+}
+
+// Mensagem usada para distinguir o cancelamento de um erro real
+export const CANCELLED_MESSAGE = 'Operação cancelada';
+
+export const isCancelled = (err: any) => err?.message === CANCELLED_MESSAGE;
+
+// Cada tarefa roda em um worker próprio: cancelar encerra o worker imediatamente,
+// mesmo no meio de um laço síncrono (ex: geração de tijolos).
+const runTask = <T>(request: DataWorkerRequest, onProgress?: (fraction: number) => void): WorkerTask<T> => {
+  const worker = new Worker(new URL('../workers/dataWorker.ts', import.meta.url), { type: 'module' });
+  let settle: { reject: (err: Error) => void } | null = null;
+
+  const promise = new Promise<T>((resolve, reject) => {
+    settle = { reject };
+
+    worker.onmessage = (event: MessageEvent<DataWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.fraction);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'done') {
+        resolve(message.result as T);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Falha no processamento em segundo plano'));
+    };
+
+    worker.postMessage(request);
+  });
+
+  const cancel = () => {
+    worker.terminate();
+    settle?.reject(new Error(CANCELLED_MESSAGE));
+  };
+
+  return { promise, cancel };
+};
+
+export const readCSVInWorker = (file: File, onProgress?: (fraction: number) => void) =>
+  runTask<RawCSV>({ task: 'read', file }, onProgress);
+
+// Apenas as opções serializáveis são enviadas; o progresso volta por mensagem
+export const importRowsInWorker = (raw: RawCSV, mapping: ColumnMapping, options: ImportOptions, onProgress?: (fraction: number) => void) =>
+  runTask<ImportResult>(
+    { task: 'import', raw, mapping, options: { sourceTimeZone: options.sourceTimeZone, dateFormat: options.dateFormat } },
+    onProgress
+  );
+
+export const resampleInWorker = (data: FinancialDataPoint[], target: Timeframe, base?: Timeframe) =>
+  runTask<FinancialDataPoint[]>({ task: 'resample', data, target, base });
+
+export const buildSeriesInWorker = (request: SeriesRequest) =>
+  runTask<SeriesResult>({ task: 'series', ...request });
+
+// Série de preços do ativo com os indicadores do app (EMA/JMA, ajuste por eventos e pivots)
+export const buildIndicatorSeriesInWorker = ({ data, corporateEvents, priceMode, indicatorSettings, source: { mapping } }: IndicatorInput) =>
+  runTask<IndicatorSeries>({
+    task: 'indicators',
+    dataset: { data, corporateEvents, priceMode, indicatorSettings, source: { mapping: { mm72: mapping.mm72, jma: mapping.jma, topoFundo: mapping.topoFundo } } },
+  });
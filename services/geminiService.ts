@@ -1,5 +1,8 @@
 import { GoogleGenAI } from "@google/genai";
-import { MessageRole, FinancialDataPoint, TradeSignal } from "../types";
+import { MessageRole, FinancialDataPoint, TradeSignal, Timeframe, ReportResponse, PriceMode } from "../types";
+import { formatTimeframe, isIntraday } from "../utils/timeHelper";
+import { FormulaColumn } from "../utils/userIndicators";
+import { describePriceZone, PriceZone } from "../utils/supportResistance";
 
 // Helper para instanciar o cliente AI com a chave fornecida ou fallback para env
 const getAIClient = (apiKey?: string) => {
@@ -29,7 +32,7 @@ DADOS FORNECIDOS: Histórico de preços (OHLC), Média Móvel 72 (Tendência), J
 ESTRUTURA DA RESPOSTA (JSON):
 - title: Título profissional do relatório.
 - action: "COMPRA", "VENDA" ou "NEUTRO/AGUARDAR".
-- prices: Objeto com "entry" (preço atual ou gatilho), "target" (alvo projetado) e "stop" (stop loss técnico). Se não houver recomendação clara, use "N/A".
+- prices: Objeto com "entry" (preço atual ou gatilho), "target" (alvo projetado) e "stop" (stop loss técnico). Se houver ZONAS DE SUPORTE/RESISTÊNCIA, ancore alvo e stop nelas. Se não houver recomendação clara, use "N/A".
 - executiveSummary: Resumo de 2 linhas para destaque.
 - content: O corpo completo do relatório em Markdown (Análise de Tendência, Pontos de Atenção, Justificativa).
 
@@ -43,36 +46,95 @@ REGRAS:
 - Tendência de Alta: Preço acima da MM72 e Topos/Fundos Ascendentes.
 - Tendência de Baixa: Preço abaixo da MM72 e Topos/Fundos Descendentes.
 - JMA: Confirma o fluxo de curto prazo.
+- Se houver dados de TIMEFRAME MAIOR, use-os para confirmar a tendência macro.
 OUTPUT: JSON estrito.
 `;
 
-const formatContextData = (contextData: { summary: any; recentData: FinancialDataPoint[] }) => {
+// Dados técnicos enviados como contexto para os prompts
+export interface AnalysisContext {
+  summary: any;
+  recentData: FinancialDataPoint[];
+  timeframe?: Timeframe;
+  priceMode?: PriceMode;
+  computedIndicators?: string[]; // Indicadores que não vieram do CSV (calculados pelo app)
+  formulaColumns?: FormulaColumn[]; // Indicadores do usuário marcados para a IA, alinhados a recentData
+  renkoMode?: string; // Modo dos tijolos quando o usuário está no gráfico Renko (ver describeRenkoMode)
+  drawingLevels?: string[]; // Desenhos do gráfico marcados para a IA (ver describeDrawings)
+  priceZones?: PriceZone[]; // Zonas de suporte/resistência detectadas (ver detectPriceZones)
+  // Resumo de um timeframe maior (ex: semanal para dados diários), usado na regra de tendência macro
+  higherTimeframe?: {
+    timeframe: Timeframe;
+    summary: any;
+    recentData: FinancialDataPoint[];
+  };
+}
+
+const formatContextData = (contextData: AnalysisContext) => {
     const hasIndicators = contextData.recentData.some(d => d.mm72 !== undefined || d.jma !== undefined);
       
-    const tableHeader = hasIndicators 
-    ? "Date | Open | High | Low | Close | MM72 | JMA | TopoFundo"
-    : "Date | Open | High | Low | Close | Volume";
-
-    const tableRows = contextData.recentData.map(d => {
+    const dateColumn = isIntraday(contextData.timeframe) ? "DateTime (BRT)" : "Date";
+    const formulaColumns = contextData.formulaColumns || [];
+    const formulaHeader = formulaColumns.map(c => ` | ${c.name}`).join('');
+    const tableHeader = (hasIndicators 
+    ? `${dateColumn} | Open | High | Low | Close | MM72 | JMA | TopoFundo`
+    : `${dateColumn} | Open | High | Low | Close | Volume`) + formulaHeader;
+
+    const tickerLine = contextData.summary?.ticker ? `ATIVO: ${contextData.summary.ticker}\n` : "";
+    const timeframeLine = contextData.timeframe ? `TIMEFRAME: ${formatTimeframe(contextData.timeframe)}\n` : "";
+    const renkoLine = contextData.renkoMode ? `GRÁFICO EM TELA: ${contextData.renkoMode}\n` : "";
+    const priceModeLine = contextData.priceMode === 'adjusted'
+      ? "PREÇOS: Ajustados por desdobramentos, grupamentos e proventos\n"
+      : "";
+    const computedLines = contextData.computedIndicators?.length
+      ? `INDICADORES CALCULADOS:\n${contextData.computedIndicators.map(c => `- ${c}`).join('\n')}\n`
+      : "";
+    const formulaLines = formulaColumns.length
+      ? `INDICADORES DO USUÁRIO:\n${formulaColumns.map(c => `- ${c.name} = ${c.formula}`).join('\n')}\n`
+      : "";
+    const zoneLines = contextData.priceZones?.length
+      ? `ZONAS DE SUPORTE/RESISTÊNCIA (detectadas em topos/fundos e volume; use como referência de alvo e stop):\n${contextData.priceZones.map(z => `- ${describePriceZone(z)}`).join('\n')}\n`
+      : "";
+    const drawingLines = contextData.drawingLevels?.length
+      ? `NÍVEIS DESENHADOS PELO ANALISTA:\n${contextData.drawingLevels.map(l => `- ${l}`).join('\n')}\n`
+      : "";
+
+    const tableRows = contextData.recentData.map((d, i) => {
+    const formulaCells = formulaColumns.map(c => ` | ${c.values[i]?.toFixed(2) ?? 'N/A'}`).join('');
     if (hasIndicators) {
-        return `${d.date} | ${d.open} | ${d.high} | ${d.low} | ${d.close} | ${d.mm72?.toFixed(2) ?? 'N/A'} | ${d.jma?.toFixed(2) ?? 'N/A'} | ${d.topoFundo ?? '-'}`;
+        return `${d.date} | ${d.open} | ${d.high} | ${d.low} | ${d.close} | ${d.mm72?.toFixed(2) ?? 'N/A'} | ${d.jma?.toFixed(2) ?? 'N/A'} | ${d.topoFundo ?? '-'}${formulaCells}`;
     }
-    return `${d.date} | ${d.open} | ${d.high} | ${d.low} | ${d.close} | ${d.volume}`;
+    return `${d.date} | ${d.open} | ${d.high} | ${d.low} | ${d.close} | ${d.volume}${formulaCells}`;
     }).join('\n');
 
     return `
-DADOS RECENTES (Últimos ${contextData.recentData.length}):
+${tickerLine}${timeframeLine}${renkoLine}${priceModeLine}${computedLines}${formulaLines}${zoneLines}${drawingLines}DADOS RECENTES (Últimos ${contextData.recentData.length}):
 ${tableHeader}
 ${tableRows}
 
 Resumo: Max: ${contextData.summary.highestPrice.toFixed(2)} | Min: ${contextData.summary.lowestPrice.toFixed(2)} | Fechamento: ${contextData.summary.lastClose.toFixed(2)}
+${formatHigherTimeframe(contextData)}
     `;
 };
 
+const formatHigherTimeframe = (contextData: AnalysisContext) => {
+    const higher = contextData.higherTimeframe;
+    if (!higher || higher.recentData.length === 0) return "";
+
+    const rows = higher.recentData
+      .map(d => `${d.date} | ${d.open} | ${d.high} | ${d.low} | ${d.close}`)
+      .join('\n');
+
+    return `
+TIMEFRAME MAIOR (${formatTimeframe(higher.timeframe)}) - Últimas ${higher.recentData.length} barras:
+Date | Open | High | Low | Close
+${rows}
+Variação no período: ${higher.summary.priceChangePercentage.toFixed(2)}%`;
+};
+
 export const analyzeFinancialData = async (
   history: { role: MessageRole; text: string }[],
   currentMessage: string,
-  contextData?: { summary: any; recentData: FinancialDataPoint[] },
+  contextData?: AnalysisContext,
   apiKey?: string
 ): Promise<string> => {
   try {
@@ -94,23 +156,10 @@ export const analyzeFinancialData = async (
   }
 };
 
-// Interface para o retorno do relatório estruturado
-export interface ReportResponse {
-    title: string;
-    action: string;
-    prices: {
-        entry: string;
-        target: string;
-        stop: string;
-    };
-    executiveSummary: string;
-    content: string;
-}
-
 // Função Atualizada para Gerar Relatório Completo (JSON)
 export const generateReport = async (
     userInstruction: string,
-    contextData?: { summary: any; recentData: FinancialDataPoint[] },
+    contextData?: AnalysisContext,
     apiKey?: string
 ): Promise<ReportResponse | null> => {
     try {
@@ -158,7 +207,7 @@ export const generateReport = async (
 
 // Nova função para o Sinal de Dashboard (JSON Estruturado)
 export const generateTradeSignal = async (
-  contextData: { summary: any; recentData: FinancialDataPoint[] },
+  contextData: AnalysisContext,
   apiKey?: string
 ): Promise<TradeSignal | null> => {
   try {
@@ -1,5 +1,6 @@
 export interface FinancialDataPoint {
-  date: string;
+  date: string; // YYYY-MM-DD (diário) ou YYYY-MM-DD HH:mm (intraday, horário de Brasília)
+  timestamp: number; // Epoch em ms, usado para ordenação e agregação
   open: number;
   high: number;
   low: number;
@@ -11,6 +12,71 @@ export interface FinancialDataPoint {
   topoFundo?: number; // Detector de Topos e Fundos
 }
 
+export interface RawCSV {
+  headers: string[];
+  rows: Record<string, any>[];
+}
+
+// Campos do FinancialDataPoint que podem ser associados a uma coluna do CSV
+export type MappableField = Exclude<keyof FinancialDataPoint, 'timestamp'>;
+
+// Campo -> nome original da coluna no CSV
+export type ColumnMapping = Partial<Record<MappableField, string>>;
+
+// Fuso horário em que as datas do CSV foram exportadas
+export type SourceTimeZone = 'B3' | 'UTC';
+
+// Ordem dos componentes da data no CSV. 'auto' infere a partir da coluna inteira.
+export type ResolvedDateFormat = 'YMD' | 'DMY' | 'MDY';
+export type DateFormat = 'auto' | ResolvedDateFormat;
+
+export interface DateFormatInference {
+  format: ResolvedDateFormat;
+  confidence: number; // 0 a 1
+  reason: string;
+  manual?: boolean; // Definido pelo usuário em vez de inferido
+}
+
+export type TimeframeUnit = 'minute' | 'day' | 'week' | 'month';
+
+export interface Timeframe {
+  unit: TimeframeUnit;
+  size: number; // Ex: { unit: 'minute', size: 5 } = 5min
+}
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export type DiagnosticCategory =
+  | 'dropped_row'
+  | 'missing_column'
+  | 'ohlc_inconsistency'
+  | 'duplicate_date'
+  | 'missing_days'
+  | 'volume'
+  | 'sparse_indicator';
+
+export interface DiagnosticFinding {
+  category: DiagnosticCategory;
+  severity: DiagnosticSeverity;
+  message: string;
+  lines?: number[]; // Linhas do CSV afetadas (1 = cabeçalho)
+  dates?: string[]; // Datas afetadas, quando a linha não se aplica (ex: dias faltantes)
+}
+
+export interface ImportDiagnostics {
+  totalRows: number;
+  validRows: number;
+  findings: DiagnosticFinding[];
+}
+
+export interface MappingProfile {
+  name: string;
+  headerSignature: string; // Assinatura normalizada do cabeçalho (ver getHeaderSignature)
+  mapping: ColumnMapping;
+  dateFormat?: DateFormat;
+  createdAt: number;
+}
+
 export enum MessageRole {
   USER = 'user',
   MODEL = 'model',
@@ -33,8 +99,178 @@ export interface AnalysisSummary {
   priceChangePercentage: number;
 }
 
+// Interface para o retorno do relatório estruturado
+export interface ReportResponse {
+  title: string;
+  action: string;
+  prices: {
+    entry: string;
+    target: string;
+    stop: string;
+  };
+  executiveSummary: string;
+  content: string;
+}
+
+export interface SavedReport {
+  report: ReportResponse;
+  instruction: string;
+  createdAt: number;
+}
+
 export interface TradeSignal {
   action: 'COMPRA' | 'VENDA' | 'NEUTRO';
   reason: string;
   confidence: 'ALTA' | 'MÉDIA' | 'BAIXA';
-}
\ No newline at end of file
+}
+
+// Indicador definido pelo usuário por fórmula (ver utils/formulaEngine). Vale para todos os ativos.
+export interface UserIndicator {
+  id: string;
+  name: string;
+  formula: string;
+  display: 'overlay' | 'pane'; // Sobre o preço ou em painel próprio
+  color: string;
+  visible: boolean;
+  includeInAI: boolean; // Coluna extra na tabela enviada à IA
+}
+
+// Tamanho do tijolo Renko: fixo (manual), derivado da volatilidade/preço e arredondado ao tick,
+// ou percentual ('log': cada tijolo é a mesma variação em %, grade logarítmica)
+export type BrickSizeMode = 'manual' | 'atr' | 'percent' | 'log';
+
+export interface BrickSizing {
+  mode: BrickSizeMode;
+  atrPeriod: number;
+  atrMultiplier: number;
+  percent: number; // % do último fechamento
+  logPercent: number; // Variação de cada tijolo no modo 'log'
+  tickSize?: number; // Ausente = inferido dos preços da série
+}
+
+// Preços que formam os tijolos: só o fechamento ou o caminho abertura → máxima/mínima → fechamento
+export type RenkoSource = 'close' | 'highLow';
+
+// Ordem assumida dos extremos no modo 'highLow' ('candle': candle de alta faz a mínima primeiro, de baixa a máxima)
+export type IntrabarOrder = 'highFirst' | 'lowFirst' | 'candle';
+
+// Desenho do gráfico temporal: candles, barras OHLC ou linha do fechamento
+export type PriceStyle = 'candles' | 'ohlc' | 'line';
+
+// Escala do eixo de preço: linear, logarítmica ou variação % desde a primeira barra visível
+export type PriceScale = 'linear' | 'log' | 'percent';
+
+// Ferramentas de desenho sobre o gráfico de preço
+export type DrawingTool = 'trendline' | 'horizontal' | 'rectangle' | 'fibonacci';
+
+// Ponto de ancoragem: data do candle (comum a candles e tijolos) e preço
+export interface DrawingAnchor {
+  date: string;
+  price: number;
+}
+
+export interface ChartDrawing {
+  id: string;
+  tool: DrawingTool;
+  anchors: DrawingAnchor[]; // 1 no nível horizontal, 2 nas demais ferramentas
+  color: string;
+}
+
+// Painéis sincronizados abaixo do preço
+export type ChartPane = 'volume' | 'rsi' | 'macd' | 'stochastic' | 'atr';
+
+export interface ChartSettings {
+  chartType: 'area' | 'renko';
+  priceStyle?: PriceStyle; // Ausente = candles quando o CSV tem abertura/máxima/mínima, senão linha
+  priceScale?: PriceScale; // Ausente = linear
+  timeframe?: Timeframe; // Timeframe exibido (agregado a partir da série importada)
+  brickSize: number; // Tamanho manual (fixado)
+  brickSizing?: BrickSizing; // Ausente em preferências antigas = manual
+  renkoReversal?: number; // Tijolos para reverter: 1 (imediato), 2 (clássico) ou N. Ausente = 1
+  renkoSource?: RenkoSource; // Ausente = 'close'
+  intrabarOrder?: IntrabarOrder;
+  showMM72: boolean;
+  showJMA: boolean;
+  showSignals: boolean;
+  showZones?: boolean; // Zonas de suporte/resistência. Ausente = exibidas
+  panes?: Partial<Record<ChartPane, boolean>>; // Ausente em preferências salvas antes dos painéis
+}
+
+// Parâmetros usados na importação, mantidos para reprocessar o arquivo (fuso, formato de data, mapeamento)
+export interface DatasetImport {
+  fileName: string;
+  raw: RawCSV;
+  mapping: ColumnMapping;
+  dateFormat: DateFormat;
+  sourceTimeZone: SourceTimeZone;
+}
+
+// Eventos societários usados no ajuste retroativo de preços
+export type CorporateEventType = 'split' | 'grouping' | 'dividend';
+
+export interface CorporateEvent {
+  date: string; // Data ex (YYYY-MM-DD)
+  timestamp: number;
+  type: CorporateEventType;
+  // split/grouping: ações novas por ação antiga (desdobramento 1:2 = 2, grupamento 10:1 = 0.1)
+  // dividend: valor pago por ação
+  value: number;
+}
+
+export type PriceMode = 'raw' | 'adjusted';
+
+// Média adaptativa no estilo Jurik
+export interface JmaSettings {
+  length: number;
+  phase: number; // -100 a 100: quanto maior, mais a média "adianta" o preço
+  power: number;
+}
+
+// Reversão mínima entre um topo e um fundo: percentual do preço, valor absoluto ou múltiplo do ATR
+export type PivotThresholdMode = 'percent' | 'absolute' | 'atr';
+
+export interface PivotSettings {
+  thresholdMode: PivotThresholdMode;
+  threshold: number;
+  atrPeriod: number;
+  leftBars: number; // Barras à esquerda que o pivot precisa superar
+  rightBars: number; // Barras à direita necessárias para confirmar
+}
+
+// Parâmetros do motor de indicadores do app (usado quando o CSV não traz a coluna)
+export interface IndicatorSettings {
+  emaPeriod: number;
+  jma: JmaSettings;
+  pivots: PivotSettings;
+}
+
+// Um ativo carregado no workspace, com estado próprio de gráfico, sinal e relatórios
+export interface AssetDataset {
+  id: string;
+  ticker: string;
+  data: FinancialDataPoint[];
+  timeframe: Timeframe;
+  diagnostics: ImportDiagnostics;
+  dateFormatInfo: DateFormatInference;
+  source: DatasetImport;
+  chartSettings?: ChartSettings;
+  tradeSignal: TradeSignal | null;
+  loadingSignal: boolean;
+  reports: SavedReport[];
+  corporateEvents: CorporateEvent[];
+  priceMode: PriceMode;
+  indicatorSettings?: IndicatorSettings;
+  importedAt: number;
+}
+
+// Resumo de um ativo salvo na biblioteca local (IndexedDB). A série e o CSV bruto ficam em registro separado.
+export interface StoredDatasetMeta extends Omit<AssetDataset, 'data' | 'source' | 'loadingSignal'> {
+  fileName: string;
+  mapping: ColumnMapping;
+  updatedAt: number;
+  pointCount: number;
+  sizeBytes: number; // Estimativa do espaço ocupado pela série + CSV bruto
+  startDate?: string;
+  endDate?: string;
+  lastClose?: number;
+}
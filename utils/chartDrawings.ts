@@ -0,0 +1,120 @@
+import { ChartDrawing, DrawingAnchor, DrawingTool, Timeframe } from '../types';
+
+const STORAGE_KEY = 'chart_drawings';
+
+// Desenhos de um ativo em um timeframe. includeInAI envia os níveis desenhados no contexto da IA.
+export interface DrawingSet {
+  drawings: ChartDrawing[];
+  includeInAI: boolean;
+}
+
+export const EMPTY_DRAWING_SET: DrawingSet = { drawings: [], includeInAI: false };
+
+export const DRAWING_TOOL_LABELS: Record<DrawingTool, string> = {
+  trendline: 'Tendência',
+  horizontal: 'Nível',
+  rectangle: 'Zona',
+  fibonacci: 'Fibonacci',
+};
+
+export const DRAWING_COLORS: Record<DrawingTool, string> = {
+  trendline: '#38bdf8',
+  horizontal: '#facc15',
+  rectangle: '#a78bfa',
+  fibonacci: '#f472b6',
+};
+
+// Níveis de retração: 0 no segundo ponto, 1 no primeiro
+export const FIB_LEVELS = [0, 0.236, 0.382, 0.5, 0.618, 0.786, 1];
+
+export const createDrawingId = () => `d-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// Chave de armazenamento: id do ativo (estável ao renomear o ticker) + timeframe exibido
+// (candles e Renko do mesmo timeframe compartilham os desenhos)
+export const drawingsKey = (datasetId: string | undefined, timeframe?: Timeframe) =>
+  `${datasetId || 'serie'}|${timeframe ? `${timeframe.unit}:${timeframe.size}` : 'original'}`;
+
+const readAll = (): Record<string, DrawingSet> => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (e) {
+    console.error("Failed to read chart drawings", e);
+    return {};
+  }
+};
+
+export const loadDrawingSet = (key: string): DrawingSet => readAll()[key] ?? EMPTY_DRAWING_SET;
+
+export const persistDrawingSet = (key: string, set: DrawingSet) => {
+  const all = readAll();
+  if (set.drawings.length === 0 && !set.includeInAI) {
+    delete all[key];
+  } else {
+    all[key] = set;
+  }
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+};
+
+export const fibPrice = ([start, end]: DrawingAnchor[], level: number) => end.price + (start.price - end.price) * level;
+
+const formatPrice = (price: number) => price.toFixed(2);
+
+const formatLevel = (level: number) => `${(level * 100).toFixed(1).replace(/\.0$/, '')}%`;
+
+// Primeiro ponto da série com data >= `date` (tijolos repetem a data do candle gerador)
+export const lowerBoundByDate = (series: { date: string }[], date: string) => {
+  let lo = 0;
+  let hi = series.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (series[mid].date < date) lo = mid + 1; else hi = mid;
+  }
+  return lo;
+};
+
+// Geometria do gráfico em que os desenhos aparecem: a linha de tendência é reta no índice das
+// barras da série exibida (candles ou tijolos) e, na escala log, no logaritmo do preço
+export interface DrawingProjection {
+  series: { date: string }[];
+  logScale: boolean;
+}
+
+const projectTrendline = ([a, b]: DrawingAnchor[], { series, logScale }: DrawingProjection) => {
+  const from = lowerBoundByDate(series, a.date);
+  const to = lowerBoundByDate(series, b.date);
+  if (series.length === 0 || from === to) return undefined;
+  const t = (series.length - 1 - from) / (to - from);
+  const price = logScale && a.price > 0 && b.price > 0
+    ? a.price * Math.pow(b.price / a.price, t)
+    : a.price + (b.price - a.price) * t;
+  return { price, date: series[series.length - 1].date };
+};
+
+// Níveis-chave em texto para o contexto da IA. A linha de tendência é projetada até a última barra da série exibida.
+export const describeDrawings = (drawings: ChartDrawing[], projection?: DrawingProjection): string[] =>
+  drawings.map(({ tool, anchors }) => {
+    const [a, b] = anchors;
+    switch (tool) {
+      case 'horizontal':
+        return `Nível horizontal em ${formatPrice(a.price)}`;
+      case 'rectangle': {
+        const [from, to] = a.date <= b.date ? [a.date, b.date] : [b.date, a.date];
+        return `Zona entre ${formatPrice(Math.min(a.price, b.price))} e ${formatPrice(Math.max(a.price, b.price))} (de ${from} a ${to})`;
+      }
+      case 'fibonacci':
+        return `Fibonacci de ${formatPrice(a.price)} (${a.date}) a ${formatPrice(b.price)} (${b.date}): `
+          + FIB_LEVELS.slice(1, -1).map(level => `${formatLevel(level)} = ${formatPrice(fibPrice(anchors, level))}`).join(' · ');
+      default: {
+        const line = `Linha de tendência de ${formatPrice(a.price)} (${a.date}) a ${formatPrice(b.price)} (${b.date})`;
+        const projected = projection && projectTrendline(anchors, projection);
+        return projected ? `${line}, projetada em ${formatPrice(projected.price)} em ${projected.date}` : line;
+      }
+    }
+  });
+
+// Níveis salvos para o gráfico `key`, apenas quando o usuário marcou os desenhos para a IA
+export const loadDrawingLevels = (key: string, projection?: DrawingProjection): string[] | undefined => {
+  const { drawings, includeInAI } = loadDrawingSet(key);
+  return includeInAI && drawings.length > 0 ? describeDrawings(drawings, projection) : undefined;
+};
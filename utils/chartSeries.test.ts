@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { FinancialDataPoint } from '../types';
+import { createRelevantSignalTracker, filterRelevantSignals, RelevantSignal, RelevantSignalUpdate } from './chartSeries';
+
+// Série ondulada com marcações de topo/fundo em várias barras, incluindo topos e fundos consecutivos
+const points: FinancialDataPoint[] = Array.from({ length: 200 }, (_, i) => {
+  const close = 100 + 10 * Math.sin(i / 5) + 3 * Math.sin(i * 1.7);
+  const high = close + 1 + Math.abs(Math.sin(i));
+  const low = close - 1 - Math.abs(Math.cos(i));
+  const mark = i % 7 === 0 ? high : i % 5 === 0 ? low : undefined;
+  return { date: `d${i}`, timestamp: i, open: close, high, low, close, volume: 0, topoFundo: mark };
+});
+
+const applyUpdate = (list: RelevantSignal[], { from, signals }: RelevantSignalUpdate) => {
+  list.length = from;
+  list.push(...signals);
+};
+
+const indices = (list: RelevantSignal[]) => new Set(list.map(s => s.index));
+
+describe('createRelevantSignalTracker: push/amend', () => {
+  it('push emite só as mudanças e reproduz o filtro completo a cada barra', () => {
+    const tracker = createRelevantSignalTracker();
+    const list: RelevantSignal[] = [];
+    points.forEach((point, i) => {
+      const update = tracker.push(point);
+      // Só o sinal pendente e os recém-confirmados são reenviados
+      expect(update.signals.length).toBeLessThanOrEqual(2);
+      applyUpdate(list, update);
+      expect(indices(list)).toEqual(filterRelevantSignals(points.slice(0, i + 1)));
+    });
+    expect(list).toEqual(tracker.signals());
+  });
+
+  it('amend da barra em formação converge para o filtro completo', () => {
+    const tracker = createRelevantSignalTracker();
+    const list: RelevantSignal[] = [];
+    points.forEach((point, i) => {
+      // A barra abre sem marcação, recebe uma marcação oposta e termina com a final
+      applyUpdate(list, tracker.push({ ...point, topoFundo: undefined }));
+      applyUpdate(list, tracker.amend({ ...point, topoFundo: point.topoFundo === point.high ? point.low : point.high }));
+      applyUpdate(list, tracker.amend(point));
+      expect(indices(list)).toEqual(filterRelevantSignals(points.slice(0, i + 1)));
+    });
+  });
+});
@@ -0,0 +1,258 @@
+import { FinancialDataPoint, JmaSettings, PivotSettings } from '../types';
+import { calculateRenkoBricks, RenkoBox, RenkoBrick, RenkoOptions } from './renkoHelper';
+import { calculateJMA } from './movingAverages';
+import { detectPivots } from './pivotDetector';
+import { FormulaDefinition, evaluateUserFormulas } from './userIndicators';
+import { FormulaBar } from './formulaEngine';
+import { OSCILLATOR_SETTINGS, calculateATR, calculateMACD, calculateRSI, calculateStochastic } from './oscillators';
+
+// Propriedades de desenho do marcador T/F
+interface SignalMarker {
+  topoFundoPoint: number | null;
+  isTopSignal?: boolean;
+}
+
+// Valores dos painéis abaixo do preço, calculados sobre a série desenhada
+// (candles no timeframe exibido ou fechamentos e pavios dos tijolos)
+export interface OscillatorValues {
+  rsi?: number;
+  macd?: number;
+  macdSignal?: number;
+  macdHist?: number;
+  stochK?: number;
+  stochD?: number;
+  atr?: number;
+  formulas?: Record<string, number | undefined>; // Indicadores do usuário, por id
+}
+
+export type AreaSeriesPoint = FinancialDataPoint & SignalMarker & OscillatorValues;
+export type RenkoSeriesPoint = RenkoBrick & SignalMarker & OscillatorValues;
+
+// Indicadores do app recalculados sobre a série desenhada (tijolos ou candles agregados),
+// quando o CSV não traz a coluna correspondente
+export interface SeriesIndicators {
+  jma?: JmaSettings;
+  pivots?: PivotSettings;
+}
+
+export interface RelevantSignal {
+  index: number;
+  type: 'top' | 'bottom';
+  value: number;
+}
+
+// Sinais novos ou refeitos: o consumidor substitui a lista de sinais a partir de `from` por `signals`
+export interface RelevantSignalUpdate {
+  from: number;
+  signals: RelevantSignal[];
+}
+
+// Filtro incremental: `push` avalia só o item novo; `amend` substitui o último item
+// (candle ou tijolo em formação) desfazendo o que ele havia decidido.
+export interface RelevantSignalTracker {
+  push: (item: FinancialDataPoint | RenkoBrick) => RelevantSignalUpdate;
+  amend: (item: FinancialDataPoint | RenkoBrick) => RelevantSignalUpdate;
+  signals: () => RelevantSignal[]; // Confirmados + o pendente (sinal atual do mercado)
+}
+
+interface SignalState {
+  pending: RelevantSignal | null;
+  confirmed: number; // Quantidade de sinais confirmados (a lista só cresce)
+}
+
+// --- ALGORITMO DE FILTRO ZIGZAG ---
+// Avalia topos e fundos relevantes baseados em alternância estrita (Topo -> Fundo -> Topo)
+// Se houver múltiplos topos consecutivos, mantém apenas o mais alto.
+// Se houver múltiplos fundos consecutivos, mantém apenas o mais baixo.
+export const createRelevantSignalTracker = (): RelevantSignalTracker => {
+  const confirmed: RelevantSignal[] = [];
+  let length = 0;
+  let committed: SignalState = { pending: null, confirmed: 0 };
+  let current = committed;
+
+  // Processa o último item a partir do estado anterior a ele
+  const apply = (item: FinancialDataPoint | RenkoBrick): RelevantSignalUpdate => {
+    confirmed.length = committed.confirmed;
+    const state: SignalState = { ...committed };
+    const i = length - 1;
+    current = state;
+
+    const changes = (): RelevantSignalUpdate => {
+      const tail = confirmed.slice(committed.confirmed);
+      return { from: committed.confirmed, signals: state.pending ? [...tail, state.pending] : tail };
+    };
+
+    // 1. Detectar se há dado cru do indicador no CSV
+    if (item.topoFundo === undefined || item.topoFundo === null) return changes();
+
+    // 2. Definir geometricamente se é candidato a Topo ou Fundo
+    // (Renko usa wickBounds, Area usa high/low)
+    const high = 'wickBounds' in item ? item.wickBounds[1] : item.high;
+    const low = 'wickBounds' in item ? item.wickBounds[0] : item.low;
+    
+    const distHigh = Math.abs(item.topoFundo - high);
+    const distLow = Math.abs(item.topoFundo - low);
+    
+    // Se estiver mais perto da máxima, é candidato a Topo.
+    const isTopCandidate = distHigh <= distLow;
+    const price = isTopCandidate ? high : low;
+
+    // 3. Lógica ZigZag (Alternância Estrita)
+    const pending = state.pending;
+    if (!pending) {
+      state.pending = { index: i, type: isTopCandidate ? 'top' : 'bottom', value: price };
+      return changes();
+    }
+
+    if (pending.type === 'top') {
+      if (isTopCandidate) {
+         // Conflito: Temos um Topo pendente e apareceu outro Topo.
+         // REGRA: Se este novo for MAIS ALTO, ele assume o posto.
+         if (price >= pending.value) {
+            state.pending = { index: i, type: 'top', value: price };
+         }
+      } else {
+         // Alternância: É um Fundo. 
+         // Confirmamos o Topo anterior como relevante.
+         confirmed.push(pending);
+         state.confirmed++;
+         // Iniciamos a busca por um novo fundo
+         state.pending = { index: i, type: 'bottom', value: price };
+      }
+    } else { // pending.type === 'bottom'
+       if (!isTopCandidate) {
+          // Conflito: Temos um Fundo pendente e apareceu outro Fundo.
+          // REGRA: Se este novo for MAIS BAIXO, ele assume.
+          if (price <= pending.value) {
+             state.pending = { index: i, type: 'bottom', value: price };
+          }
+       } else {
+          // Alternância: É um Topo.
+          // Confirmamos o Fundo anterior como relevante.
+          confirmed.push(pending);
+          state.confirmed++;
+          // Iniciamos a busca por um novo topo
+          state.pending = { index: i, type: 'top', value: price };
+       }
+    }
+    return changes();
+  };
+
+  return {
+    push: (item) => {
+      committed = current;
+      length++;
+      return apply(item);
+    },
+    amend: (item) => (length === 0 ? { from: 0, signals: [] } : apply(item)),
+    // Inclui o último sinal pendente (o sinal atual do mercado)
+    signals: () => (current.pending ? [...confirmed, current.pending] : [...confirmed]),
+  };
+};
+
+// Índices dos sinais relevantes da série inteira
+export const filterRelevantSignals = (items: (FinancialDataPoint | RenkoBrick)[]) => {
+  const tracker = createRelevantSignalTracker();
+  items.forEach(item => tracker.push(item));
+  return new Set(tracker.signals().map(signal => signal.index));
+};
+
+const buildOscillators = (bars: FormulaBar[], formulas: FormulaDefinition[]) => {
+  const closes = bars.map(b => b.close);
+  const { rsiPeriod, macd, stochastic, atrPeriod } = OSCILLATOR_SETTINGS;
+  const rsi = calculateRSI(closes, rsiPeriod);
+  const macdSeries = calculateMACD(closes, macd.fast, macd.slow, macd.signal);
+  const stoch = calculateStochastic(bars, stochastic.kPeriod, stochastic.dPeriod);
+  const atr = calculateATR(bars, atrPeriod);
+  const userValues = evaluateUserFormulas(formulas, bars);
+  const userIds = Object.keys(userValues);
+
+  return (i: number): OscillatorValues => ({
+    rsi: rsi[i],
+    macd: macdSeries.macd[i],
+    macdSignal: macdSeries.signal[i],
+    macdHist: macdSeries.histogram[i],
+    stochK: stoch.k[i],
+    stochD: stoch.d[i],
+    atr: atr[i],
+    formulas: userIds.length ? Object.fromEntries(userIds.map(id => [id, userValues[id][i]])) : undefined,
+  });
+};
+
+// Processamento de dados para Área
+export const buildAreaSeries = (source: FinancialDataPoint[], indicators?: SeriesIndicators, formulas: FormulaDefinition[] = []): AreaSeriesPoint[] => {
+  let data = source;
+  if (indicators?.jma || indicators?.pivots) {
+    const jma = indicators.jma ? calculateJMA(source.map(d => d.close), indicators.jma) : null;
+    const pivots = indicators.pivots ? detectPivots(source, indicators.pivots) : null;
+    data = source.map((d, i) => ({
+      ...d,
+      jma: jma ? jma[i] : d.jma,
+      topoFundo: pivots ? pivots[i] : d.topoFundo,
+    }));
+  }
+
+  // 1. Executa o filtro de relevância
+  const relevantIndices = filterRelevantSignals(data);
+  const oscillatorsAt = buildOscillators(data, formulas);
+
+  return data.map((d, i) => {
+    // Verifica se este índice foi marcado como relevante pelo algoritmo
+    if (!relevantIndices.has(i)) {
+        // Se não for relevante, passamos o dado sem as props de desenho do sinal
+        return { ...d, ...oscillatorsAt(i), topoFundoPoint: null, isTopSignal: undefined };
+    }
+
+    // Recalcula geometria para garantir precisão
+    const distHigh = Math.abs(d.topoFundo! - d.high);
+    const distLow = Math.abs(d.topoFundo! - d.low);
+    const isTop = distHigh <= distLow;
+
+    return {
+      ...d,
+      ...oscillatorsAt(i),
+      topoFundoPoint: isTop ? d.high : d.low, // Ancoragem exata no preço
+      isTopSignal: isTop
+    };
+  });
+};
+
+// Processamento de dados para Renko.
+// Com `indicators`, JMA e pivots são recalculados sobre os tijolos em vez de herdados do candle gerador.
+export const buildRenkoSeries = (data: FinancialDataPoint[], box: RenkoBox, options: RenkoOptions, indicators?: SeriesIndicators, formulas: FormulaDefinition[] = []): RenkoSeriesPoint[] => {
+  const bricks = calculateRenkoBricks(data, box, options);
+
+  if (indicators?.jma) {
+    const jma = calculateJMA(bricks.map(b => b.close), indicators.jma);
+    bricks.forEach((b, i) => { b.jma = jma[i]; });
+  }
+  const bars = bricks.map(b => ({ open: b.open, high: b.wickBounds[1], low: b.wickBounds[0], close: b.close, volume: b.volume }));
+  if (indicators?.pivots) {
+    const pivots = detectPivots(bars, indicators.pivots);
+    bricks.forEach((b, i) => { b.topoFundo = pivots[i]; });
+  }
+  
+  // 1. Executa o filtro de relevância nos tijolos
+  const relevantIndices = filterRelevantSignals(bricks);
+  const oscillatorsAt = buildOscillators(bars, formulas);
+
+  return bricks.map((b, i) => {
+    if (!relevantIndices.has(i)) {
+        return { ...b, ...oscillatorsAt(i), topoFundoPoint: null, isTopSignal: undefined };
+    }
+
+    const high = b.wickBounds[1];
+    const low = b.wickBounds[0];
+    
+    const distHigh = Math.abs((b.topoFundo || 0) - high);
+    const distLow = Math.abs((b.topoFundo || 0) - low);
+    const isTop = distHigh <= distLow;
+
+    return {
+      ...b,
+      ...oscillatorsAt(i),
+      topoFundoPoint: isTop ? high : low,
+      isTopSignal: isTop
+    };
+  });
+};
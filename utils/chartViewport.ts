@@ -0,0 +1,80 @@
+// Janela visível do gráfico (índices da série completa) e redução de pontos para desenho
+
+export interface ViewRange {
+  start: number;
+  end: number; // Inclusivo
+}
+
+// Menor janela permitida no zoom
+export const MIN_VISIBLE_POINTS = 10;
+
+// Janela ausente = série inteira. Ajusta a janela salva a uma série de outro tamanho.
+export const clampRange = (range: ViewRange | null, total: number): ViewRange => {
+  if (!range || total === 0) return { start: 0, end: Math.max(0, total - 1) };
+  const count = Math.min(total, Math.max(1, range.end - range.start + 1));
+  const start = Math.min(Math.max(0, range.start), total - count);
+  return { start, end: start + count - 1 };
+};
+
+// Zoom mantendo fixo o ponto sob o cursor (`anchor` = posição relativa de 0 a 1 na largura do gráfico).
+// factor < 1 aproxima, > 1 afasta. Retorna null quando a janela volta a cobrir a série inteira.
+export const zoomRange = (range: ViewRange | null, total: number, factor: number, anchor: number): ViewRange | null => {
+  const current = clampRange(range, total);
+  const count = current.end - current.start + 1;
+  const nextCount = Math.min(total, Math.max(Math.min(MIN_VISIBLE_POINTS, total), Math.round(count * factor)));
+  if (nextCount >= total) return null;
+
+  const anchorIndex = current.start + anchor * (count - 1);
+  const start = Math.round(anchorIndex - anchor * (nextCount - 1));
+  return clampRange({ start, end: start + nextCount - 1 }, total);
+};
+
+// Desloca a janela em `delta` pontos (positivo = para a direita, mais recente)
+export const panRange = (range: ViewRange | null, total: number, delta: number): ViewRange | null => {
+  if (!range) return null;
+  return clampRange({ start: range.start + delta, end: range.end + delta }, total);
+};
+
+// Faixa [mínimo, máximo] de um ponto em uma das séries desenhadas (preço ou painel); undefined = sem valor
+export type PointExtent<T> = (point: T) => [number, number] | undefined;
+
+// Redução por baldes de mínimo/máximo: em cada balde, cada série de `extents` mantém o ponto de menor
+// e o de maior valor, na ordem original, para que topos e fundos nunca sumam do preço nem dos painéis
+// (todos desenham os mesmos pontos e ficam alinhados). Pontos marcados em `keep` (ex: sinais T/F) e
+// as extremidades da janela são sempre mantidos.
+export const downsampleMinMax = <T>(
+  points: T[],
+  maxPoints: number,
+  extents: PointExtent<T>[],
+  keep: (point: T) => boolean = () => false
+): T[] => {
+  if (points.length <= maxPoints || maxPoints < 4) return points;
+
+  const buckets = Math.floor(maxPoints / 2);
+  const bucketSize = points.length / buckets;
+  const selected = new Set<number>([0, points.length - 1]);
+
+  for (let b = 0; b < buckets; b++) {
+    const from = Math.floor(b * bucketSize);
+    const to = Math.min(points.length, Math.floor((b + 1) * bucketSize));
+    for (let i = from; i < to; i++) {
+      if (keep(points[i])) selected.add(i);
+    }
+    extents.forEach(extent => {
+      let minIdx = -1;
+      let maxIdx = -1;
+      let min = Infinity;
+      let max = -Infinity;
+      for (let i = from; i < to; i++) {
+        const range = extent(points[i]);
+        if (!range) continue;
+        if (range[0] < min) [min, minIdx] = [range[0], i];
+        if (range[1] > max) [max, maxIdx] = [range[1], i];
+      }
+      if (minIdx >= 0) selected.add(minIdx);
+      if (maxIdx >= 0) selected.add(maxIdx);
+    });
+  }
+
+  return Array.from(selected).sort((a, b) => a - b).map(i => points[i]);
+};
@@ -0,0 +1,141 @@
+import { AssetDataset, CorporateEvent, CorporateEventType, FinancialDataPoint, RawCSV } from '../types';
+import { b3LocalToTimestamp, formatB3Label } from './timeHelper';
+import { splitNumericDate, resolveDateParts, inferDateFormat } from './dateFormat';
+import { parseNum } from './csvHelper';
+
+export const CORPORATE_EVENT_LABELS: Record<CorporateEventType, string> = {
+  split: 'Desdobramento',
+  grouping: 'Grupamento',
+  dividend: 'Provento',
+};
+
+// Nomes aceitos na coluna de tipo (sem acento, minúsculos)
+const TYPE_ALIASES: Record<string, CorporateEventType> = {
+  desdobramento: 'split',
+  split: 'split',
+  grupamento: 'grouping',
+  agrupamento: 'grouping',
+  inplit: 'grouping',
+  'reverse split': 'grouping',
+  dividendo: 'dividend',
+  dividendos: 'dividend',
+  dividend: 'dividend',
+  provento: 'dividend',
+  jcp: 'dividend',
+  rendimento: 'dividend',
+};
+
+// Casas decimais mantidas nos preços ajustados
+const ADJUSTED_DECIMALS = 4;
+
+const normalize = (val: any) =>
+  String(val ?? '').trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+const findHeader = (headers: string[], ...aliases: string[]) =>
+  headers.find(h => aliases.includes(normalize(h)));
+
+// Fator de ações: "1:2" ou "1/2" = 2 ações novas por antiga; número puro segue o sentido do evento
+// (desdobramento "2" = 1:2, grupamento "10" = 10:1)
+const parseShareFactor = (val: any, type: 'split' | 'grouping'): number => {
+  const ratio = String(val ?? '').trim().match(/^([\d.,]+)\s*[:/]\s*([\d.,]+)$/);
+  if (ratio) return parseNum(ratio[2]) / parseNum(ratio[1]);
+
+  const factor = parseNum(val);
+  return type === 'grouping' ? 1 / factor : factor;
+};
+
+// Lê o arquivo de eventos (data, tipo, fator/valor). Lança erro citando as linhas inválidas.
+export const parseCorporateEvents = (raw: RawCSV): CorporateEvent[] => {
+  const dateKey = findHeader(raw.headers, 'date', 'data', 'data ex', 'data_ex', 'ex-date');
+  const typeKey = findHeader(raw.headers, 'type', 'tipo', 'evento');
+  const valueKey = findHeader(raw.headers, 'factor', 'fator', 'valor', 'value', 'amount', 'proporcao');
+
+  if (!dateKey || !typeKey || !valueKey) {
+    throw new Error("Arquivo de eventos deve ter as colunas Data, Tipo e Fator/Valor.");
+  }
+
+  const format = inferDateFormat(raw.rows.map((row, i) => ({ line: i + 2, value: row[dateKey] }))).format;
+
+  const events: CorporateEvent[] = [];
+  const invalidLines: number[] = [];
+
+  raw.rows.forEach((row, i) => {
+    const line = i + 2;
+    const type = TYPE_ALIASES[normalize(row[typeKey])];
+    const numericDate = splitNumericDate(String(row[dateKey] ?? ''));
+    const ymd = numericDate ? resolveDateParts(numericDate, format) : null;
+
+    if (!type || !ymd) { invalidLines.push(line); return; }
+
+    const value = type === 'dividend' ? parseNum(row[valueKey]) : parseShareFactor(row[valueKey], type);
+    if (!isFinite(value) || value <= 0) { invalidLines.push(line); return; }
+
+    const timestamp = b3LocalToTimestamp(ymd[0], ymd[1], ymd[2]);
+    events.push({ date: formatB3Label(timestamp, false), timestamp, type, value });
+  });
+
+  if (invalidLines.length > 0) {
+    throw new Error(`Eventos inválidos nas linhas ${invalidLines.slice(0, 5).join(', ')}${invalidLines.length > 5 ? ` (+${invalidLines.length - 5})` : ''}. Tipos aceitos: desdobramento, grupamento, dividendo/JCP.`);
+  }
+
+  return events.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+const round = (val: number) => {
+  const scale = Math.pow(10, ADJUSTED_DECIMALS);
+  return Math.round(val * scale) / scale;
+};
+
+// Ajuste retroativo: barras anteriores à data ex de cada evento são reescaladas para
+// ficarem comparáveis ao preço atual. Preços e indicadores de preço usam o fator de preço;
+// o volume usa o fator de ações. A série bruta não é alterada.
+export const applyCorporateActions = (data: FinancialDataPoint[], events: CorporateEvent[]): FinancialDataPoint[] => {
+  if (events.length === 0) return data;
+
+  const pending = [...events].sort((a, b) => b.timestamp - a.timestamp);
+  const adjusted: FinancialDataPoint[] = new Array(data.length);
+
+  let priceFactor = 1;
+  let volumeFactor = 1;
+  let next = 0;
+
+  for (let i = data.length - 1; i >= 0; i--) {
+    const point = data[i];
+
+    // Eventos com data ex depois desta barra passam a valer daqui para trás
+    while (next < pending.length && pending[next].timestamp > point.timestamp) {
+      const event = pending[next++];
+      if (event.type === 'dividend') {
+        // Fator clássico de provento: 1 - valor / fechamento anterior à data ex
+        if (point.close > event.value) priceFactor *= 1 - event.value / point.close;
+      } else {
+        priceFactor /= event.value;
+        volumeFactor *= event.value;
+      }
+    }
+
+    if (priceFactor === 1 && volumeFactor === 1) {
+      adjusted[i] = point;
+      continue;
+    }
+
+    const scale = (val?: number) => (val === undefined || val === null ? val : round(val * priceFactor));
+    adjusted[i] = {
+      ...point,
+      open: round(point.open * priceFactor),
+      high: round(point.high * priceFactor),
+      low: round(point.low * priceFactor),
+      close: round(point.close * priceFactor),
+      volume: Math.round(point.volume * volumeFactor),
+      mm72: scale(point.mm72),
+      jma: scale(point.jma),
+      topoFundo: scale(point.topoFundo),
+    };
+  }
+
+  return adjusted;
+};
+
+// Série exibida no gráfico, no resumo e enviada à IA, conforme o modo de preço do ativo
+export const getPriceSeries = (dataset: Pick<AssetDataset, 'data' | 'corporateEvents' | 'priceMode'>) =>
+  dataset.priceMode === 'adjusted' ? applyCorporateActions(dataset.data, dataset.corporateEvents) : dataset.data;
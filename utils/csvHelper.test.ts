@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { importRows } from './csvHelper';
+import { b3LocalToTimestamp } from './timeHelper';
+
+const mapping = { date: 'Data', open: 'Abertura', high: 'Maxima', low: 'Minima', close: 'Fechamento' };
+
+const raw = (dates: string[]) => ({
+  headers: ['Data', 'Abertura', 'Maxima', 'Minima', 'Fechamento'],
+  rows: dates.map((date, i) => ({ Data: date, Abertura: '10', Maxima: '12', Minima: '9', Fechamento: String(10 + i) })),
+});
+
+describe('importRows: arquivos diários com hora', () => {
+  it('descarta a meia-noite e mantém o timeframe diário', () => {
+    const result = importRows(raw(['2024-01-02 00:00:00', '2024-01-03 00:00:00', '2024-01-05 00:00:00']), mapping);
+    expect(result.timeframe).toEqual({ unit: 'day', size: 1 });
+    expect(result.data.map(d => d.date)).toEqual(['2024-01-02', '2024-01-03', '2024-01-05']);
+    expect(result.data[0].timestamp).toBe(b3LocalToTimestamp(2024, 1, 2));
+    // Pregão faltante só é verificado em séries diárias
+    expect(result.diagnostics.findings.some(f => f.category === 'missing_days')).toBe(true);
+  });
+
+  it('não desloca para o dia anterior a meia-noite em UTC', () => {
+    const result = importRows(raw(['2024-01-02T00:00:00Z', '2024-01-03T00:00:00Z', '2024-01-04T00:00:00Z']), mapping);
+    expect(result.timeframe).toEqual({ unit: 'day', size: 1 });
+    expect(result.data.map(d => d.date)).toEqual(['2024-01-02', '2024-01-03', '2024-01-04']);
+  });
+
+  it('classifica como semanal pelo intervalo mesmo com hora diferente de meia-noite', () => {
+    const result = importRows(raw(['2024-01-05 18:00', '2024-01-12 18:00', '2024-01-19 18:00']), mapping);
+    expect(result.timeframe).toEqual({ unit: 'week', size: 1 });
+    expect(result.data.map(d => d.date)).toEqual(['2024-01-05', '2024-01-12', '2024-01-19']);
+  });
+
+  it('mantém o intraday com hora e minutos', () => {
+    const result = importRows(raw(['2024-01-02 10:00', '2024-01-02 10:05', '2024-01-02 10:10']), mapping);
+    expect(result.timeframe).toEqual({ unit: 'minute', size: 5 });
+    expect(result.data[0].date).toBe('2024-01-02 10:00');
+  });
+});
+
+describe('importRows: preços de Abertura/Máxima/Mínima', () => {
+  const rows = [
+    { Data: '2024-01-02', Abertura: '10', Maxima: '12', Minima: '9', Fechamento: '11' },
+    { Data: '2024-01-03', Abertura: '-', Maxima: '12', Minima: '9', Fechamento: '11' },
+    { Data: '2024-01-04', Abertura: '', Maxima: '12', Minima: ' ', Fechamento: '11' },
+    { Data: '2024-01-05', Abertura: '10', Maxima: 'n/d', Minima: '9', Fechamento: '11' },
+  ];
+  const result = importRows({ headers: ['Data', 'Abertura', 'Maxima', 'Minima', 'Fechamento'], rows }, mapping);
+
+  it('descarta linhas com preço não numérico', () => {
+    expect(result.data.map(d => d.date)).toEqual(['2024-01-02', '2024-01-04']);
+    const dropped = result.diagnostics.findings.filter(f => f.category === 'dropped_row');
+    expect(dropped.map(f => [f.message, f.lines])).toEqual([
+      ['1 linha(s) descartada(s): Abertura não numérica.', [3]],
+      ['1 linha(s) descartada(s): Máxima não numérica.', [5]],
+    ]);
+  });
+
+  it('reporta as células vazias preenchidas com o fechamento', () => {
+    expect(result.data[1]).toMatchObject({ open: 11, high: 12, low: 11 });
+    const filled = result.diagnostics.findings.find(f => f.category === 'missing_column');
+    expect(filled?.lines).toEqual([4]);
+  });
+});
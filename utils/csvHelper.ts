@@ -1,158 +1,325 @@
 import Papa from 'papaparse';
-import { FinancialDataPoint } from '../types';
+import { FinancialDataPoint, ColumnMapping, MappableField, SourceTimeZone, ImportDiagnostics, Timeframe, DateFormat, DateFormatInference, ResolvedDateFormat, RawCSV } from '../types';
+import { b3LocalToTimestamp, formatB3Label, getB3Parts, detectTimeframe, medianInterval, DAY_MS } from './timeHelper';
+import { diagnoseImport, ParsedRow, RejectedRow } from './dataDiagnostics';
+import { DATETIME_REGEX, DATE_FORMAT_LABELS, splitNumericDate, resolveDateParts, inferDateFormat } from './dateFormat';
+
+interface NormalizedDate {
+  timestamp: number;
+  isoDate: string;
+  // Dia do calendário como escrito no arquivo (YYYY-MM-DD) e se a hora informada é meia-noite
+  sourceDay: string;
+  midnight: boolean;
+}
 
 // Helper function to parse date strings into a comparable timestamp and ISO string
-const parseAndNormalizeDate = (val: any): { timestamp: number, isoDate: string } | null => {
+const parseAndNormalizeDate = (val: any, format: ResolvedDateFormat, sourceTimeZone: SourceTimeZone = 'B3'): NormalizedDate | null => {
   if (!val) return null;
   
   // If already a number (unlikely for CSV but possible)
   if (typeof val === 'number') {
-    const d = new Date(val);
+    const p = getB3Parts(val);
+    const midnight = p.hour === 0 && p.minute === 0;
     return { 
       timestamp: val, 
-      isoDate: d.toISOString().split('T')[0] 
+      isoDate: formatB3Label(val, !midnight),
+      sourceDay: formatB3Label(val, false),
+      midnight,
     };
   }
 
-  let str = String(val).trim();
-  // Clean potential time parts
-  str = str.split(' ')[0].split('T')[0];
+  const str = String(val).trim();
+  const match = str.match(DATETIME_REGEX);
+  const hasTime = !!(match && match[2] !== undefined);
 
-  // Try to split by common separators
-  const parts = str.split(/[\/\-\.]/); // Matches / or - or .
-  
-  let dateObj: Date | null = null;
-
-  if (parts.length === 3) {
-    const a = parseInt(parts[0], 10);
-    const b = parseInt(parts[1], 10);
-    const c = parseInt(parts[2], 10);
-
-    if (!isNaN(a) && !isNaN(b) && !isNaN(c)) {
-      // Heuristics for format detection
-      
-      // Case 1: YYYY-MM-DD (First part is year > 31)
-      if (a > 31) {
-        dateObj = new Date(a, b - 1, c);
-      }
-      // Case 2: DD-MM-YYYY (Last part is year > 31) - Common in Brazil
-      else if (c > 31) {
-        dateObj = new Date(c, b - 1, a);
-      }
-      // Case 3: DD-MM-YY (Last part is 2 digits)
-      else if (parts[2].length === 2) {
-        dateObj = new Date(2000 + c, b - 1, a);
-      }
-      // Case 4: Ambiguous (e.g. 01/01/2023) - Assume DD/MM/YYYY for PT-BR context
-      else {
-        dateObj = new Date(c, b - 1, a);
+  // Formato único para o arquivo inteiro (ver inferDateFormat)
+  const numericDate = splitNumericDate(str);
+  const ymd = numericDate ? resolveDateParts(numericDate, format) : null;
+
+  // Data numérica inválida no formato escolhido: não tenta reinterpretar
+  if (numericDate && !ymd) return null;
+
+  let timestamp: number | null = null;
+  let sourceDay: string | null = null;
+  let midnight = !hasTime;
+
+  if (ymd) {
+    const [year, month, day] = ymd;
+    const hour = hasTime ? parseInt(match![2], 10) : 0;
+    const minute = hasTime ? parseInt(match![3], 10) : 0;
+    const second = hasTime && match![4] ? parseInt(match![4], 10) : 0;
+    const offset = match && match[5];
+    sourceDay = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    midnight = hour === 0 && minute === 0 && second === 0;
+
+    if (offset) {
+      // Offset explícito no arquivo prevalece sobre o fuso escolhido
+      const utc = Date.UTC(year, month - 1, day, hour, minute, second);
+      if (offset.toUpperCase() === 'Z') {
+        timestamp = utc;
+      } else {
+        const sign = offset[0] === '-' ? -1 : 1;
+        const digits = offset.slice(1).replace(':', '');
+        const offsetMinutes = parseInt(digits.slice(0, 2), 10) * 60 + parseInt(digits.slice(2), 10);
+        timestamp = utc - sign * offsetMinutes * 60000;
       }
+    } else if (sourceTimeZone === 'UTC') {
+      timestamp = Date.UTC(year, month - 1, day, hour, minute, second);
+    } else {
+      timestamp = b3LocalToTimestamp(year, month, day, hour, minute, second);
     }
   }
 
-  // Fallback: Try standard Date constructor
-  if (!dateObj || isNaN(dateObj.getTime())) {
+  // Fallback: Try standard Date constructor (datas por extenso, ex: "Jan 2, 2024")
+  if (!numericDate) {
     const tryDate = new Date(str);
     if (!isNaN(tryDate.getTime())) {
-      dateObj = tryDate;
+      timestamp = tryDate.getTime();
     }
   }
 
-  if (dateObj && !isNaN(dateObj.getTime())) {
-    // Manually format to YYYY-MM-DD to avoid UTC shifts
-    const year = dateObj.getFullYear();
-    const month = String(dateObj.getMonth() + 1).padStart(2, '0');
-    const day = String(dateObj.getDate()).padStart(2, '0');
+  if (timestamp !== null && !isNaN(timestamp)) {
+    // Rótulo sempre no horário de Brasília; sem hora, mantém o formato diário YYYY-MM-DD
     return {
-      timestamp: dateObj.getTime(),
-      isoDate: `${year}-${month}-${day}`
+      timestamp,
+      isoDate: formatB3Label(timestamp, hasTime),
+      sourceDay: sourceDay ?? formatB3Label(timestamp, false),
+      midnight,
     };
   }
 
   return null;
 };
 
-export const parseCSV = (file: File): Promise<FinancialDataPoint[]> => {
+// Campos exibidos no assistente de mapeamento, na ordem de apresentação
+export const MAPPABLE_FIELDS: { field: MappableField; label: string; required?: boolean }[] = [
+  { field: 'date', label: 'Data', required: true },
+  { field: 'open', label: 'Abertura' },
+  { field: 'high', label: 'Máxima' },
+  { field: 'low', label: 'Mínima' },
+  { field: 'close', label: 'Fechamento', required: true },
+  { field: 'volume', label: 'Volume' },
+  { field: 'mm72', label: 'MM72' },
+  { field: 'jma', label: 'JMA' },
+  { field: 'topoFundo', label: 'Topos/Fundos' },
+];
+
+const normalizeHeader = (header: string) => header.toLowerCase().trim();
+
+// Assinatura independente de ordem e caixa, usada para reconhecer arquivos do mesmo layout
+export const getHeaderSignature = (headers: string[]) =>
+  headers.map(normalizeHeader).filter(Boolean).sort().join('|');
+
+// Lê o arquivo em blocos para poder reportar o progresso (fração de 0 a 1 dos bytes lidos)
+export const readCSV = (file: File, onProgress?: (fraction: number) => void): Promise<RawCSV> => {
   return new Promise((resolve, reject) => {
-    Papa.parse(file, {
+    let headers: string[] = [];
+    const rows: any[] = [];
+
+    Papa.parse<Record<string, string>>(file, {
       header: true,
       skipEmptyLines: true,
-      complete: (results) => {
-        try {
-          const parsedData: FinancialDataPoint[] = results.data
-            .map((row: any): FinancialDataPoint | null => {
-              // Normalize keys
-              const normalizedRow: any = {};
-              Object.keys(row).forEach((key) => {
-                normalizedRow[key.toLowerCase().trim()] = row[key];
-              });
-
-              const dateVal = normalizedRow.date || normalizedRow.data;
-              const closeVal = normalizedRow.close || normalizedRow.fechamento || normalizedRow.ultimo;
-
-              if (!dateVal || !closeVal) return null;
-
-              const dateInfo = parseAndNormalizeDate(dateVal);
-              if (!dateInfo) return null;
-
-              // Helper for fuzzy match keys
-              const findKey = (search: string) => Object.keys(normalizedRow).find(k => k.includes(search));
-              
-              const mm72Key = findKey('mm72') || findKey('media_72') || findKey('exp_72');
-              const jmaKey = findKey('jma') || findKey('scapp');
-              const toposKey = findKey('topos') || findKey('fundo') || findKey('detector');
-
-              const parseNum = (val: any) => {
-                if (!val) return 0;
-                if (typeof val === 'number') return val;
-                
-                const strVal = String(val).trim();
-                if (strVal.includes(',') && strVal.includes('.')) {
-                    if (strVal.lastIndexOf(',') > strVal.lastIndexOf('.')) {
-                        return parseFloat(strVal.replace(/\./g, '').replace(',', '.'));
-                    }
-                } else if (strVal.includes(',')) {
-                    return parseFloat(strVal.replace(',', '.'));
-                }
-                return parseFloat(strVal);
-              };
-
-              return {
-                date: dateInfo.isoDate, // Standardized YYYY-MM-DD
-                open: parseNum(normalizedRow.open || normalizedRow.abertura || closeVal),
-                high: parseNum(normalizedRow.high || normalizedRow.maxima || closeVal),
-                low: parseNum(normalizedRow.low || normalizedRow.minima || closeVal),
-                close: parseNum(closeVal),
-                volume: parseInt(String(normalizedRow.volume || normalizedRow.volume || '0').replace(/\./g, '').replace(',', '.'), 10),
-                
-                mm72: mm72Key ? parseNum(normalizedRow[mm72Key]) : undefined,
-                jma: jmaKey ? parseNum(normalizedRow[jmaKey]) : undefined,
-                topoFundo: toposKey ? parseNum(normalizedRow[toposKey]) : undefined,
-              };
-            })
-            .filter((item): item is FinancialDataPoint => item !== null && !isNaN(item.close));
-
-          if (parsedData.length === 0) {
-            reject(new Error("Nenhum dado válido encontrado. Verifique as colunas Data e Close."));
-          } else {
-            // STRICT SORT: Oldest (Small Date) to Newest (Big Date)
-            parsedData.sort((a, b) => {
-              const timeA = new Date(a.date).getTime();
-              const timeB = new Date(b.date).getTime();
-              return timeA - timeB;
-            });
-            resolve(parsedData);
-          }
-        } catch (error) {
-          reject(error);
+      chunk: (results: Papa.ParseResult<Record<string, string>>) => {
+        if (headers.length === 0) {
+          headers = results.meta.fields || Object.keys(results.data[0] || {});
         }
+        for (const row of results.data) rows.push(row);
+        if (file.size > 0) onProgress?.(Math.min(1, results.meta.cursor / file.size));
       },
-      error: (error) => reject(error),
+      complete: () => resolve({ headers, rows }),
+      error: (error: Error) => reject(error),
     });
   });
 };
 
-export const calculateSummary = (data: FinancialDataPoint[]) => {
+// Tenta adivinhar o mapeamento a partir dos apelidos conhecidos de cada corretora/plataforma
+export const detectColumnMapping = (headers: string[]): ColumnMapping => {
+  const byName = (...aliases: string[]) => headers.find(h => aliases.includes(normalizeHeader(h)));
+  // Helper for fuzzy match keys
+  const byFragment = (...fragments: string[]) => {
+    for (const fragment of fragments) {
+      const found = headers.find(h => normalizeHeader(h).includes(fragment));
+      if (found) return found;
+    }
+    return undefined;
+  };
+
+  const mapping: ColumnMapping = {
+    date: byName('date', 'data'),
+    open: byName('open', 'abertura'),
+    high: byName('high', 'maxima'),
+    low: byName('low', 'minima'),
+    close: byName('close', 'fechamento', 'ultimo'),
+    volume: byName('volume'),
+    mm72: byFragment('mm72', 'media_72', 'exp_72'),
+    jma: byFragment('jma', 'scapp'),
+    topoFundo: byFragment('topos', 'fundo', 'detector'),
+  };
+
+  // Remove entradas vazias para que o mapeamento reflita apenas o que foi encontrado
+  (Object.keys(mapping) as MappableField[]).forEach(field => {
+    if (!mapping[field]) delete mapping[field];
+  });
+
+  return mapping;
+};
+
+export const isMappingComplete = (mapping: ColumnMapping) =>
+  MAPPABLE_FIELDS.every(({ field, required }) => !required || !!mapping[field]);
+
+type PriceField = 'open' | 'high' | 'low';
+
+const PRICE_FIELDS: { field: PriceField; label: string }[] = [
+  { field: 'open', label: 'Abertura' },
+  { field: 'high', label: 'Máxima' },
+  { field: 'low', label: 'Mínima' },
+];
+
+export const parseNum = (val: any) => {
+  if (!val) return 0;
+  if (typeof val === 'number') return val;
+  
+  const strVal = String(val).trim();
+  if (strVal.includes(',') && strVal.includes('.')) {
+      if (strVal.lastIndexOf(',') > strVal.lastIndexOf('.')) {
+          return parseFloat(strVal.replace(/\./g, '').replace(',', '.'));
+      }
+  } else if (strVal.includes(',')) {
+      return parseFloat(strVal.replace(',', '.'));
+  }
+  return parseFloat(strVal);
+};
+
+export interface ImportOptions {
+  sourceTimeZone?: SourceTimeZone;
+  dateFormat?: DateFormat;
+  onProgress?: (fraction: number) => void; // Fração de linhas processadas (0 a 1)
+}
+
+// Intervalo de linhas entre avisos de progresso
+const PROGRESS_STEP = 5000;
+
+export interface ImportResult {
+  data: FinancialDataPoint[];
+  timeframe: Timeframe;
+  dateFormat: DateFormatInference;
+  diagnostics: ImportDiagnostics;
+}
+
+export const importRows = (raw: RawCSV, mapping: ColumnMapping, options: ImportOptions = {}): ImportResult => {
+  const { sourceTimeZone = 'B3', dateFormat = 'auto', onProgress } = options;
+
+  if (!isMappingComplete(mapping)) {
+    throw new Error("Mapeamento incompleto. Associe as colunas Data e Close.");
+  }
+
+  const col = (row: Record<string, any>, field: MappableField) => {
+    const key = mapping[field];
+    return key ? row[key] : undefined;
+  };
+
+  // Um único formato de data para o arquivo inteiro; 'auto' lança erro se as linhas se contradizem
+  const dateFormatInfo: DateFormatInference = dateFormat === 'auto'
+    ? inferDateFormat(raw.rows.map((row, i) => ({ line: i + 2, value: col(row, 'date') })))
+    : { format: dateFormat, confidence: 1, reason: 'Definido manualmente.', manual: true };
+
+  const parsedRows: ParsedRow[] = [];
+  const rejectedRows: RejectedRow[] = [];
+  const sourceDays = new Map<ParsedRow, string>();
+  let allMidnight = true;
+
+  raw.rows.forEach((row, i) => {
+    // Linha 1 é o cabeçalho. Linhas vazias são ignoradas pelo Papa e não entram na contagem.
+    const line = i + 2;
+    if (onProgress && i % PROGRESS_STEP === 0) onProgress(i / raw.rows.length);
+
+    const dateVal = col(row, 'date');
+    const closeVal = col(row, 'close');
+
+    if (!dateVal) { rejectedRows.push({ line, reason: 'Data vazia' }); return; }
+    if (!closeVal) { rejectedRows.push({ line, reason: 'Fechamento vazio' }); return; }
+
+    const dateInfo = parseAndNormalizeDate(dateVal, dateFormatInfo.format, sourceTimeZone);
+    if (!dateInfo) { rejectedRows.push({ line, reason: `Data inválida no formato ${DATE_FORMAT_LABELS[dateFormatInfo.format]}` }); return; }
+
+    const close = parseNum(closeVal);
+    if (isNaN(close)) { rejectedRows.push({ line, reason: 'Fechamento não numérico' }); return; }
+
+    // Abertura/Máxima/Mínima vazias usam o fechamento (reportado no diagnóstico); texto não numérico descarta a linha
+    const filledFromClose: PriceField[] = [];
+    const prices = {} as Record<PriceField, number>;
+    let invalidPrice: string | undefined;
+    for (const { field, label } of PRICE_FIELDS) {
+      const val = col(row, field);
+      if (val === undefined || val === null || String(val).trim() === '') {
+        if (mapping[field]) filledFromClose.push(field);
+        prices[field] = close;
+      } else {
+        prices[field] = parseNum(val);
+        if (isNaN(prices[field])) { invalidPrice = label; break; }
+      }
+    }
+    if (invalidPrice) { rejectedRows.push({ line, reason: `${invalidPrice} não numérica` }); return; }
+
+    const volume = parseInt(String(col(row, 'volume') || '0').replace(/\./g, '').replace(',', '.'), 10);
+
+    const parsed: ParsedRow = {
+      line,
+      rawVolume: col(row, 'volume'),
+      filledFromClose,
+      point: {
+        date: dateInfo.isoDate, // Standardized YYYY-MM-DD (+ HH:mm no intraday)
+        timestamp: dateInfo.timestamp,
+        open: prices.open,
+        high: prices.high,
+        low: prices.low,
+        close,
+        volume: isNaN(volume) ? 0 : volume, // Falha reportada no diagnóstico
+        
+        mm72: mapping.mm72 ? parseNum(row[mapping.mm72]) : undefined,
+        jma: mapping.jma ? parseNum(row[mapping.jma]) : undefined,
+        topoFundo: mapping.topoFundo ? parseNum(row[mapping.topoFundo]) : undefined,
+      }
+    };
+    parsedRows.push(parsed);
+    sourceDays.set(parsed, dateInfo.sourceDay);
+    allMidnight = allMidnight && dateInfo.midnight;
+  });
+
+  if (parsedRows.length === 0) {
+    throw new Error("Nenhum dado válido encontrado. Verifique as colunas Data e Close.");
+  }
+
+  // STRICT SORT: Oldest (Small Date) to Newest (Big Date)
+  parsedRows.sort((a, b) => a.point.timestamp - b.point.timestamp);
+
+  // Arquivo diário (ou maior) com hora nas datas, ex: "2024-01-02 00:00:00" ou "2024-01-02T00:00:00Z":
+  // a hora é descartada e cada barra fica no dia escrito no arquivo, como nos arquivos só com data
+  const median = medianInterval(parsedRows.map(r => r.point.timestamp));
+  if (allMidnight || (median !== undefined && median >= DAY_MS)) {
+    parsedRows.forEach(r => {
+      const day = sourceDays.get(r)!;
+      const [year, month, dd] = day.split('-').map(Number);
+      r.point.date = day;
+      r.point.timestamp = b3LocalToTimestamp(year, month, dd);
+    });
+    parsedRows.sort((a, b) => a.point.timestamp - b.point.timestamp);
+  }
+
+  const data = parsedRows.map(r => r.point);
+  const timeframe = detectTimeframe(data);
+  const diagnostics = diagnoseImport({ totalRows: raw.rows.length, parsedRows, rejectedRows, mapping, timeframe });
+  onProgress?.(1);
+
+  return { data, timeframe, dateFormat: dateFormatInfo, diagnostics };
+};
+
+export const parseCSV = async (file: File, mapping?: ColumnMapping, options: ImportOptions = {}): Promise<FinancialDataPoint[]> => {
+  const raw = await readCSV(file);
+  return importRows(raw, mapping || detectColumnMapping(raw.headers), options).data;
+};
+
+export const calculateSummary = (data: FinancialDataPoint[], ticker?: string) => {
   if (data.length === 0) return null;
 
   let maxPrice = -Infinity;
@@ -170,6 +337,7 @@ export const calculateSummary = (data: FinancialDataPoint[]) => {
   const change = ((last.close - first.open) / first.open) * 100;
 
   return {
+    ticker,
     startDate: first.date,
     endDate: last.date,
     highestPrice: maxPrice,
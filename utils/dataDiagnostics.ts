@@ -0,0 +1,207 @@
+import { FinancialDataPoint, ColumnMapping, DiagnosticFinding, ImportDiagnostics, Timeframe } from '../types';
+
+export interface ParsedRow {
+  line: number;
+  point: FinancialDataPoint;
+  rawVolume: any;
+  // Colunas mapeadas de Abertura/Máxima/Mínima vazias nesta linha, preenchidas com o fechamento
+  filledFromClose: ('open' | 'high' | 'low')[];
+}
+
+export interface RejectedRow {
+  line: number;
+  reason: string;
+}
+
+interface DiagnoseInput {
+  totalRows: number;
+  parsedRows: ParsedRow[]; // Já ordenadas por data
+  rejectedRows: RejectedRow[];
+  mapping: ColumnMapping;
+  timeframe: Timeframe;
+}
+
+// Acima desta fração de valores vazios a coluna de indicador é considerada "majoritariamente vazia"
+const SPARSE_INDICATOR_RATIO = 0.5;
+
+const isBlank = (val: any) => val === undefined || val === null || String(val).trim() === '';
+
+const DAY_MS = 86400000;
+
+// Dias úteis (seg-sex) estritamente entre duas datas diárias YYYY-MM-DD.
+// Feriados da B3 não são considerados, por isso o achado é apenas informativo.
+const missingWeekdaysBetween = (from: string, to: string): string[] => {
+  const missing: string[] = [];
+  const start = Date.parse(`${from}T00:00:00Z`);
+  const end = Date.parse(`${to}T00:00:00Z`);
+  for (let t = start + DAY_MS; t < end; t += DAY_MS) {
+    const weekday = new Date(t).getUTCDay();
+    if (weekday !== 0 && weekday !== 6) {
+      missing.push(new Date(t).toISOString().slice(0, 10));
+    }
+  }
+  return missing;
+};
+
+export const diagnoseImport = ({ totalRows, parsedRows, rejectedRows, mapping, timeframe }: DiagnoseInput): ImportDiagnostics => {
+  const findings: DiagnosticFinding[] = [];
+
+  // 1. Linhas descartadas, agrupadas por motivo
+  const byReason = new Map<string, number[]>();
+  rejectedRows.forEach(r => {
+    byReason.set(r.reason, [...(byReason.get(r.reason) || []), r.line]);
+  });
+  byReason.forEach((lines, reason) => {
+    findings.push({
+      category: 'dropped_row',
+      severity: 'warning',
+      message: `${lines.length} linha(s) descartada(s): ${reason}.`,
+      lines,
+    });
+  });
+
+  // 2. Colunas OHLC ausentes (preenchidas com o fechamento)
+  const missingPriceColumns = (['open', 'high', 'low'] as const).filter(f => !mapping[f]);
+  if (missingPriceColumns.length > 0) {
+    const labels = { open: 'Abertura', high: 'Máxima', low: 'Mínima' };
+    findings.push({
+      category: 'missing_column',
+      severity: 'warning',
+      message: `Coluna(s) ${missingPriceColumns.map(f => labels[f]).join(', ')} ausente(s): valores preenchidos com o fechamento.`,
+    });
+  }
+
+  // Células vazias em colunas mapeadas (preenchidas com o fechamento)
+  const filledLines = parsedRows.filter(r => r.filledFromClose.length > 0).map(r => r.line);
+  if (filledLines.length > 0) {
+    findings.push({
+      category: 'missing_column',
+      severity: 'warning',
+      message: `${filledLines.length} linha(s) com Abertura, Máxima ou Mínima vazia: valores preenchidos com o fechamento.`,
+      lines: filledLines,
+    });
+  }
+
+  // 3. Inconsistências OHLC
+  const highBelowLow: number[] = [];
+  const outOfRange: number[] = [];
+  parsedRows.forEach(({ line, point }) => {
+    if (point.high < point.low) {
+      highBelowLow.push(line);
+    } else if (
+      point.close > point.high || point.close < point.low ||
+      point.open > point.high || point.open < point.low
+    ) {
+      outOfRange.push(line);
+    }
+  });
+  if (highBelowLow.length > 0) {
+    findings.push({
+      category: 'ohlc_inconsistency',
+      severity: 'error',
+      message: `${highBelowLow.length} linha(s) com Máxima menor que a Mínima.`,
+      lines: highBelowLow,
+    });
+  }
+  if (outOfRange.length > 0) {
+    findings.push({
+      category: 'ohlc_inconsistency',
+      severity: 'warning',
+      message: `${outOfRange.length} linha(s) com Abertura ou Fechamento fora do intervalo Mínima–Máxima.`,
+      lines: outOfRange,
+    });
+  }
+
+  // 4. Datas duplicadas
+  const duplicateLines: number[] = [];
+  const duplicateDates = new Set<string>();
+  for (let i = 1; i < parsedRows.length; i++) {
+    if (parsedRows[i].point.timestamp === parsedRows[i - 1].point.timestamp) {
+      duplicateLines.push(parsedRows[i].line);
+      duplicateDates.add(parsedRows[i].point.date);
+    }
+  }
+  if (duplicateLines.length > 0) {
+    findings.push({
+      category: 'duplicate_date',
+      severity: 'error',
+      message: `${duplicateDates.size} data(s) repetida(s) em ${duplicateLines.length} linha(s).`,
+      lines: duplicateLines,
+      dates: Array.from(duplicateDates),
+    });
+  }
+
+  // 5. Pregões faltantes (apenas séries diárias)
+  if (timeframe.unit === 'day' && timeframe.size === 1) {
+    const missing: string[] = [];
+    for (let i = 1; i < parsedRows.length; i++) {
+      missing.push(...missingWeekdaysBetween(parsedRows[i - 1].point.date, parsedRows[i].point.date));
+    }
+    if (missing.length > 0) {
+      findings.push({
+        category: 'missing_days',
+        severity: 'info',
+        message: `${missing.length} dia(s) útil(eis) sem pregão no arquivo (pode incluir feriados).`,
+        dates: missing,
+      });
+    }
+  }
+
+  // 6. Volume
+  if (!mapping.volume) {
+    findings.push({
+      category: 'volume',
+      severity: 'info',
+      message: 'Coluna de Volume ausente: volume considerado zero.',
+    });
+  } else {
+    const parseFailures: number[] = [];
+    const zeroVolume: number[] = [];
+    parsedRows.forEach(({ line, point, rawVolume }) => {
+      const parsed = parseInt(String(rawVolume ?? '').replace(/\./g, '').replace(',', '.'), 10);
+      if (!isBlank(rawVolume) && isNaN(parsed)) {
+        parseFailures.push(line);
+      } else if (point.volume === 0) {
+        zeroVolume.push(line);
+      }
+    });
+    if (parseFailures.length > 0) {
+      findings.push({
+        category: 'volume',
+        severity: 'warning',
+        message: `${parseFailures.length} valor(es) de Volume não numérico(s), considerados zero.`,
+        lines: parseFailures,
+      });
+    }
+    if (zeroVolume.length > 0) {
+      findings.push({
+        category: 'volume',
+        severity: 'info',
+        message: `${zeroVolume.length} linha(s) com Volume zero ou vazio.`,
+        lines: zeroVolume,
+      });
+    }
+  }
+
+  // 7. Indicadores majoritariamente vazios.
+  // Topos/Fundos fica de fora: a coluna só tem valor nos pivots por definição.
+  (['mm72', 'jma'] as const).forEach(field => {
+    const key = mapping[field];
+    if (!key || parsedRows.length === 0) return;
+    const empty = parsedRows.filter(r => !r.point[field]).length;
+    const ratio = empty / parsedRows.length;
+    if (ratio > SPARSE_INDICATOR_RATIO) {
+      findings.push({
+        category: 'sparse_indicator',
+        severity: 'warning',
+        message: `Coluna "${key}" (${field.toUpperCase()}) vazia em ${(ratio * 100).toFixed(0)}% das linhas.`,
+      });
+    }
+  });
+
+  return {
+    totalRows,
+    validRows: parsedRows.length,
+    findings,
+  };
+};
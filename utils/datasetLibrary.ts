@@ -0,0 +1,150 @@
+import { AssetDataset, DatasetImport, FinancialDataPoint, StoredDatasetMeta } from '../types';
+
+const DB_NAME = 'fin_analyst_library';
+const DB_VERSION = 1;
+const META_STORE = 'meta'; // Resumo + preferências (gravado a cada alteração)
+const SERIES_STORE = 'series'; // Série e CSV bruto (gravado só na importação)
+
+interface StoredSeries {
+  id: string;
+  data: FinancialDataPoint[];
+  source: DatasetImport;
+}
+
+// Quantidade de itens amostrados para estimar o tamanho serializado
+const SIZE_SAMPLE = 200;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openLibrary = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(SERIES_STORE)) db.createObjectStore(SERIES_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error || new Error("Não foi possível abrir a biblioteca local."));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Gravação na biblioteca cancelada (espaço insuficiente?)."));
+  });
+
+// Estimativa barata: serializa uma amostra e extrapola para a lista inteira
+const estimateBytes = (items: unknown[]) => {
+  if (items.length === 0) return 0;
+  const sample = items.slice(0, SIZE_SAMPLE);
+  return Math.round((JSON.stringify(sample).length / sample.length) * items.length);
+};
+
+const toMeta = (dataset: AssetDataset, sizeBytes: number): StoredDatasetMeta => {
+  const { data, source, loadingSignal, ...rest } = dataset;
+  const first = data[0];
+  const last = data[data.length - 1];
+  return {
+    ...rest,
+    fileName: source.fileName,
+    mapping: source.mapping,
+    updatedAt: Date.now(),
+    pointCount: data.length,
+    sizeBytes,
+    startDate: first?.date,
+    endDate: last?.date,
+    lastClose: last?.close,
+  };
+};
+
+// Ativos salvos, do mais recente para o mais antigo
+export const listStoredDatasets = async (): Promise<StoredDatasetMeta[]> => {
+  const db = await openLibrary();
+  const metas = await requestToPromise<StoredDatasetMeta[]>(db.transaction(META_STORE).objectStore(META_STORE).getAll());
+  return metas.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// Grava a série completa e o resumo (nova importação ou reprocessamento)
+export const saveDataset = async (dataset: AssetDataset) => {
+  const db = await openLibrary();
+  const sizeBytes = estimateBytes(dataset.data) + estimateBytes(dataset.source.raw.rows);
+  const series: StoredSeries = { id: dataset.id, data: dataset.data, source: dataset.source };
+
+  const tx = db.transaction([META_STORE, SERIES_STORE], 'readwrite');
+  tx.objectStore(SERIES_STORE).put(series);
+  tx.objectStore(META_STORE).put(toMeta(dataset, sizeBytes));
+  await transactionDone(tx);
+};
+
+// Atualiza apenas o resumo/preferências (ticker, configurações do gráfico, relatórios...)
+export const saveDatasetMeta = async (dataset: AssetDataset) => {
+  const db = await openLibrary();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  const store = tx.objectStore(META_STORE);
+  const previous = await requestToPromise<StoredDatasetMeta | undefined>(store.get(dataset.id));
+  // Sem registro anterior a série ainda não foi gravada; saveDataset cuida disso
+  if (previous) store.put(toMeta(dataset, previous.sizeBytes));
+  await transactionDone(tx);
+};
+
+export const loadStoredDataset = async (id: string): Promise<AssetDataset> => {
+  const db = await openLibrary();
+  const tx = db.transaction([META_STORE, SERIES_STORE]);
+  const [meta, series] = await Promise.all([
+    requestToPromise<StoredDatasetMeta | undefined>(tx.objectStore(META_STORE).get(id)),
+    requestToPromise<StoredSeries | undefined>(tx.objectStore(SERIES_STORE).get(id)),
+  ]);
+
+  if (!meta || !series) {
+    throw new Error("Ativo não encontrado na biblioteca local.");
+  }
+
+  const { fileName, mapping, updatedAt, pointCount, sizeBytes, startDate, endDate, lastClose, ...rest } = meta;
+  return { ...rest, data: series.data, source: series.source, loadingSignal: false };
+};
+
+export const renameStoredDataset = async (id: string, ticker: string) => {
+  const db = await openLibrary();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  const store = tx.objectStore(META_STORE);
+  const meta = await requestToPromise<StoredDatasetMeta | undefined>(store.get(id));
+  if (meta) store.put({ ...meta, ticker, updatedAt: Date.now() });
+  await transactionDone(tx);
+};
+
+export const deleteStoredDataset = async (id: string) => {
+  const db = await openLibrary();
+  const tx = db.transaction([META_STORE, SERIES_STORE], 'readwrite');
+  tx.objectStore(META_STORE).delete(id);
+  tx.objectStore(SERIES_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+// Uso total do armazenamento da origem (IndexedDB + localStorage + cache), quando o navegador informa
+export const getStorageEstimate = async (): Promise<{ usage: number; quota: number } | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
@@ -0,0 +1,158 @@
+import { DateFormatInference, ResolvedDateFormat } from '../types';
+
+// Captura "data", "hora" opcional (HH:mm[:ss][.ms]) e offset opcional (Z ou ±HH:mm)
+export const DATETIME_REGEX = /^(\S+?)(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?\s*(Z|[+-]\d{2}:?\d{2})?)?$/i;
+
+export const DATE_FORMAT_LABELS: Record<ResolvedDateFormat, string> = {
+  YMD: 'AAAA-MM-DD',
+  DMY: 'DD/MM/AAAA',
+  MDY: 'MM/DD/AAAA',
+};
+
+const DAY_MS = 86400000;
+
+// Quantas linhas de exemplo citar nas mensagens de erro
+const MAX_CITED_LINES = 5;
+
+export interface NumericDateParts {
+  parts: [number, number, number];
+  raw: [string, string, string];
+}
+
+// Separa a porção de data em três componentes numéricos (ex: "02/01/2024" -> [2, 1, 2024])
+export const splitNumericDate = (value: string): NumericDateParts | null => {
+  const str = value.trim();
+  const match = str.match(DATETIME_REGEX);
+  const datePart = match ? match[1] : str.split(' ')[0].split('T')[0];
+
+  // Try to split by common separators
+  const raw = datePart.split(/[\/\-\.]/); // Matches / or - or .
+  if (raw.length !== 3) return null;
+
+  const parts = raw.map(p => (/^\d+$/.test(p) ? parseInt(p, 10) : NaN));
+  if (parts.some(isNaN)) return null;
+
+  return { parts: parts as [number, number, number], raw: raw as [string, string, string] };
+};
+
+const isYearFirst = ({ parts, raw }: NumericDateParts) => parts[0] > 31 || raw[0].length === 4;
+
+// Aplica o formato e valida a data (ex: mês 13 ou 31/02 são rejeitados)
+export const resolveDateParts = ({ parts, raw }: NumericDateParts, format: ResolvedDateFormat): [number, number, number] | null => {
+  const [a, b, c] = parts;
+  const expandYear = (year: number, digits: string) => (digits.length === 2 ? 2000 + year : year);
+
+  let ymd: [number, number, number];
+  if (format === 'YMD') {
+    ymd = [expandYear(a, raw[0]), b, c];
+  } else if (format === 'DMY') {
+    ymd = [expandYear(c, raw[2]), b, a];
+  } else {
+    ymd = [expandYear(c, raw[2]), a, b];
+  }
+
+  const check = new Date(Date.UTC(ymd[0], ymd[1] - 1, ymd[2]));
+  if (check.getUTCMonth() !== ymd[1] - 1 || check.getUTCDate() !== ymd[2]) return null;
+
+  return ymd;
+};
+
+const cite = (lines: number[]) =>
+  lines.slice(0, MAX_CITED_LINES).join(', ') + (lines.length > MAX_CITED_LINES ? ` (+${lines.length - MAX_CITED_LINES})` : '');
+
+// Mede o quão "bem comportada" é a sequência de datas em um formato:
+// fração de pares consecutivos na direção predominante e mediana do intervalo em dias.
+const scoreOrdering = (entries: NumericDateParts[], format: ResolvedDateFormat) => {
+  const times = entries
+    .map(e => resolveDateParts(e, format))
+    .map(ymd => (ymd ? Date.UTC(ymd[0], ymd[1] - 1, ymd[2]) : NaN));
+
+  const valid = times.filter(t => !isNaN(t));
+
+  let asc = 0;
+  let desc = 0;
+  const gaps: number[] = [];
+  for (let i = 1; i < valid.length; i++) {
+    const diff = valid[i] - valid[i - 1];
+    if (diff > 0) asc++;
+    if (diff < 0) desc++;
+    gaps.push(Math.abs(diff) / DAY_MS);
+  }
+  gaps.sort((x, y) => x - y);
+
+  const pairs = Math.max(1, valid.length - 1);
+  return {
+    monotonic: Math.max(asc, desc) / pairs,
+    medianGap: gaps.length ? gaps[Math.floor(gaps.length / 2)] : 0,
+  };
+};
+
+// Infere um único formato para toda a coluna de datas.
+// Lança erro quando há linhas que só fazem sentido em formatos diferentes.
+export const inferDateFormat = (values: { line: number; value: any }[]): DateFormatInference => {
+  const entries: { line: number; date: NumericDateParts }[] = [];
+  values.forEach(({ line, value }) => {
+    if (value === undefined || value === null || typeof value === 'number') return;
+    const date = splitNumericDate(String(value));
+    if (date) entries.push({ line, date });
+  });
+
+  if (entries.length === 0) {
+    return { format: 'YMD', confidence: 0, reason: 'Nenhuma data numérica encontrada.' };
+  }
+
+  // 1. Posição do ano
+  const yearFirstLines = entries.filter(e => isYearFirst(e.date)).map(e => e.line);
+  const yearLastLines = entries.filter(e => !isYearFirst(e.date)).map(e => e.line);
+
+  if (yearFirstLines.length > 0 && yearLastLines.length > 0) {
+    throw new Error(
+      `Formato de data inconsistente: linhas ${cite(yearFirstLines)} têm o ano no início e linhas ${cite(yearLastLines)} têm o ano no fim.`
+    );
+  }
+  if (yearFirstLines.length > 0) {
+    return { format: 'YMD', confidence: 1, reason: 'Ano na primeira posição.' };
+  }
+
+  // 2. Evidência direta: um componente maior que 12 só pode ser o dia
+  const dayFirstLines = entries.filter(e => e.date.parts[0] > 12 && e.date.parts[1] <= 12).map(e => e.line);
+  const monthFirstLines = entries.filter(e => e.date.parts[1] > 12 && e.date.parts[0] <= 12).map(e => e.line);
+
+  if (dayFirstLines.length > 0 && monthFirstLines.length > 0) {
+    throw new Error(
+      `Formato de data inconsistente: linhas ${cite(dayFirstLines)} só são válidas como DD/MM e linhas ${cite(monthFirstLines)} só são válidas como MM/DD.`
+    );
+  }
+  if (dayFirstLines.length > 0) {
+    return { format: 'DMY', confidence: 1, reason: `${dayFirstLines.length} data(s) com dia maior que 12.` };
+  }
+  if (monthFirstLines.length > 0) {
+    return { format: 'MDY', confidence: 1, reason: `${monthFirstLines.length} data(s) com dia maior que 12 na segunda posição.` };
+  }
+
+  // 3. Todas ambíguas: compara a ordenação resultante em cada formato
+  const dates = entries.map(e => e.date);
+  const dmy = scoreOrdering(dates, 'DMY');
+  const mdy = scoreOrdering(dates, 'MDY');
+
+  if (dmy.monotonic !== mdy.monotonic) {
+    const best = dmy.monotonic > mdy.monotonic ? 'DMY' : 'MDY';
+    const margin = Math.abs(dmy.monotonic - mdy.monotonic);
+    return {
+      format: best,
+      confidence: Math.min(0.9, 0.5 + margin / 2),
+      reason: 'Todas as datas são ambíguas; escolhido o formato que mantém a série ordenada.',
+    };
+  }
+
+  if (dmy.medianGap !== mdy.medianGap) {
+    return {
+      format: dmy.medianGap < mdy.medianGap ? 'DMY' : 'MDY',
+      confidence: 0.6,
+      reason: 'Todas as datas são ambíguas; escolhido o formato com intervalos mais regulares.',
+    };
+  }
+
+  // Sem evidência alguma: assume o padrão brasileiro
+  return { format: 'DMY', confidence: 0.5, reason: 'Todas as datas são ambíguas; assumido o padrão brasileiro DD/MM.' };
+};
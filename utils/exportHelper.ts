@@ -0,0 +1,142 @@
+import { PriceMode, Timeframe } from '../types';
+import { AreaSeriesPoint, OscillatorValues, RenkoSeriesPoint } from './chartSeries';
+import { formatTimeframe } from './timeHelper';
+import { RenkoOptions } from './renkoHelper';
+
+export type ExportFormat = 'csv' | 'json';
+
+export interface SeriesExport {
+  chartType: 'area' | 'renko';
+  points: (AreaSeriesPoint | RenkoSeriesPoint)[];
+  ticker?: string;
+  timeframe?: Timeframe;
+  brickSize?: number;
+  boxPercent?: number; // Grade percentual: brickSize não se aplica
+  renkoOptions?: RenkoOptions;
+  priceMode?: PriceMode;
+  formulas?: { id: string; name: string }[]; // Indicadores do usuário presentes nos pontos (viram colunas no CSV)
+}
+
+interface ExportColumn<T> {
+  header: string;
+  value: (point: T) => string | number | boolean | undefined | null;
+}
+
+// Colunas dos osciladores, comuns às duas séries
+const OSCILLATOR_COLUMNS: ExportColumn<OscillatorValues>[] = [
+  { header: 'rsi', value: p => p.rsi },
+  { header: 'macd', value: p => p.macd },
+  { header: 'macdSignal', value: p => p.macdSignal },
+  { header: 'macdHist', value: p => p.macdHist },
+  { header: 'stochK', value: p => p.stochK },
+  { header: 'stochD', value: p => p.stochD },
+  { header: 'atr', value: p => p.atr },
+];
+
+// Marcador do zigzag relevante: T (topo), F (fundo) ou vazio
+const signalLabel = (point: { isTopSignal?: boolean }) =>
+  point.isTopSignal === undefined ? '' : point.isTopSignal ? 'T' : 'F';
+
+const AREA_COLUMNS: ExportColumn<AreaSeriesPoint>[] = [
+  { header: 'date', value: p => p.date },
+  { header: 'timestamp', value: p => p.timestamp },
+  { header: 'open', value: p => p.open },
+  { header: 'high', value: p => p.high },
+  { header: 'low', value: p => p.low },
+  { header: 'close', value: p => p.close },
+  { header: 'volume', value: p => p.volume },
+  { header: 'mm72', value: p => p.mm72 },
+  { header: 'jma', value: p => p.jma },
+  { header: 'topoFundo', value: p => p.topoFundo },
+  { header: 'topoFundoPoint', value: p => p.topoFundoPoint },
+  { header: 'signal', value: signalLabel },
+  ...OSCILLATOR_COLUMNS,
+];
+
+const RENKO_COLUMNS: ExportColumn<RenkoSeriesPoint>[] = [
+  { header: 'index', value: p => p.index },
+  { header: 'date', value: p => p.date },
+  { header: 'type', value: p => p.type },
+  { header: 'open', value: p => p.open },
+  { header: 'close', value: p => p.close },
+  { header: 'high', value: p => p.high },
+  { header: 'low', value: p => p.low },
+  { header: 'bounds_min', value: p => p.bounds[0] },
+  { header: 'bounds_max', value: p => p.bounds[1] },
+  { header: 'wickBounds_min', value: p => p.wickBounds[0] },
+  { header: 'wickBounds_max', value: p => p.wickBounds[1] },
+  { header: 'volume', value: p => p.volume },
+  { header: 'boxPercent', value: p => p.boxPercent },
+  { header: 'mm72', value: p => p.mm72 },
+  { header: 'jma', value: p => p.jma },
+  { header: 'topoFundo', value: p => p.topoFundo },
+  { header: 'topoFundoPoint', value: p => p.topoFundoPoint },
+  { header: 'signal', value: signalLabel },
+  ...OSCILLATOR_COLUMNS,
+];
+
+const escapeCSV = (val: string | number | boolean | undefined | null) => {
+  if (val === undefined || val === null) return '';
+  const str = String(val);
+  return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+// CSV com separador vírgula e ponto decimal (pronto para planilhas em inglês e pandas.read_csv)
+export const seriesToCSV = ({ chartType, points, formulas = [] }: SeriesExport) => {
+  const base = (chartType === 'renko' ? RENKO_COLUMNS : AREA_COLUMNS) as ExportColumn<any>[];
+  // Uma coluna por fórmula, com o nome dado pelo usuário (acrescido do id se repetir outra coluna)
+  const used = new Set(base.map(c => c.header));
+  const formulaColumns = formulas.map(({ id, name }): ExportColumn<AreaSeriesPoint | RenkoSeriesPoint> => {
+    const header = used.has(name) ? `${name}_${id}` : name;
+    used.add(header);
+    return { header, value: p => p.formulas?.[id] };
+  });
+  const columns = [...base, ...formulaColumns] as ExportColumn<any>[];
+  const header = columns.map(c => escapeCSV(c.header)).join(',');
+  const rows = points.map(p => columns.map(c => escapeCSV(c.value(p))).join(','));
+  return [header, ...rows].join('\n');
+};
+
+// JSON com metadados do gráfico e os pontos completos (pandas.json_normalize(doc['points']))
+export const seriesToJSON = ({ chartType, points, ticker, timeframe, brickSize, boxPercent, renkoOptions, priceMode, formulas }: SeriesExport) =>
+  JSON.stringify({
+    ticker,
+    timeframe: timeframe ? formatTimeframe(timeframe) : undefined,
+    chartType,
+    brickSize: chartType === 'renko' && boxPercent === undefined ? brickSize : undefined,
+    brickPercent: chartType === 'renko' ? boxPercent : undefined,
+    reversal: chartType === 'renko' ? renkoOptions?.reversal : undefined,
+    brickSource: chartType === 'renko' ? renkoOptions?.source : undefined,
+    intrabarOrder: chartType === 'renko' && renkoOptions?.source === 'highLow' ? renkoOptions.intrabarOrder : undefined,
+    priceMode,
+    formulas: formulas?.length ? Object.fromEntries(formulas.map(({ id, name }) => [id, name])) : undefined, // Nome de cada id em points[].formulas
+    exportedAt: new Date().toISOString(),
+    points,
+  }, null, 2);
+
+// Sufixo curto e sem acentos para nomes de arquivo (5min, 1D, 1W, 1M)
+const timeframeSlug = ({ unit, size }: Timeframe) =>
+  unit === 'minute' ? `${size}min` : `${size}${unit === 'day' ? 'D' : unit === 'week' ? 'W' : 'M'}`;
+
+export const buildExportFileName = ({ chartType, ticker, timeframe, brickSize, boxPercent }: SeriesExport, format: ExportFormat) => {
+  const parts = [
+    ticker || 'serie',
+    timeframe ? timeframeSlug(timeframe) : undefined,
+    chartType === 'renko' ? (boxPercent !== undefined ? `renko_${boxPercent}pct` : `renko_${brickSize}R`) : 'candles',
+  ].filter(Boolean);
+  return `${parts.join('_').replace(/[^\w.-]+/g, '_')}.${format}`;
+};
+
+export const downloadSeries = (series: SeriesExport, format: ExportFormat) => {
+  const content = format === 'csv' ? seriesToCSV(series) : seriesToJSON(series);
+  const blob = new Blob([content], { type: format === 'csv' ? 'text/csv;charset=utf-8' : 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = buildExportFileName(series, format);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
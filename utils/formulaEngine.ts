@@ -0,0 +1,309 @@
+import { calculateEMA } from './movingAverages';
+import { calculateATR, calculateRSI, RangeBar } from './oscillators';
+
+// Linguagem de fórmulas dos indicadores do usuário.
+// Aceita números, campos da barra, + - * /, parênteses e as funções de FORMULA_FUNCTIONS.
+// Não usa eval: a fórmula é analisada e avaliada vetorialmente sobre a série.
+
+export interface FormulaBar extends RangeBar {
+  open: number;
+  volume: number;
+}
+
+type Vector = (number | undefined)[];
+
+const FIELDS: Record<string, (bar: FormulaBar) => number> = {
+  open: b => b.open,
+  high: b => b.high,
+  low: b => b.low,
+  close: b => b.close,
+  volume: b => b.volume,
+  hl2: b => (b.high + b.low) / 2,
+  hlc3: b => (b.high + b.low + b.close) / 3,
+};
+
+type ParamKind = 'series' | 'period';
+
+interface FormulaFunction {
+  params: ParamKind[];
+  description: string;
+  evaluate: (args: (Vector | number)[], bars: FormulaBar[]) => Vector;
+}
+
+// Aplica um cálculo com estado (que não aceita lacunas) só sobre os valores definidos.
+// Lacunas (aquecimento, divisão por zero) ficam undefined e o estado segue no próximo valor definido.
+const skippingGaps = (values: Vector, fn: (defined: number[]) => Vector): Vector => {
+  const result: Vector = new Array(values.length).fill(undefined);
+  const positions: number[] = [];
+  const defined: number[] = [];
+  values.forEach((v, i) => {
+    if (v === undefined) return;
+    positions.push(i);
+    defined.push(v);
+  });
+  fn(defined).forEach((v, k) => { result[positions[k]] = v; });
+  return result;
+};
+
+// Janela móvel de `period` valores; undefined se faltar algum valor na janela
+const rolling = (values: Vector, period: number, fn: (window: number[]) => number): Vector =>
+  values.map((_, i) => {
+    if (i < period - 1) return undefined;
+    const window = values.slice(i - period + 1, i + 1);
+    return window.some(v => v === undefined) ? undefined : fn(window as number[]);
+  });
+
+const pointwise = (a: Vector, b: Vector, fn: (x: number, y: number) => number): Vector =>
+  a.map((x, i) => {
+    const y = b[i];
+    if (x === undefined || y === undefined) return undefined;
+    const value = fn(x, y);
+    return isFinite(value) ? value : undefined;
+  });
+
+export const FORMULA_FUNCTIONS: Record<string, FormulaFunction> = {
+  ema: {
+    params: ['series', 'period'],
+    description: 'média móvel exponencial',
+    evaluate: ([src, n]) => skippingGaps(src as Vector, values => calculateEMA(values, n as number)),
+  },
+  sma: {
+    params: ['series', 'period'],
+    description: 'média móvel simples',
+    evaluate: ([src, n]) => rolling(src as Vector, n as number, w => w.reduce((acc, v) => acc + v, 0) / w.length),
+  },
+  highest: {
+    params: ['series', 'period'],
+    description: 'maior valor em n barras',
+    evaluate: ([src, n]) => rolling(src as Vector, n as number, w => Math.max(...w)),
+  },
+  lowest: {
+    params: ['series', 'period'],
+    description: 'menor valor em n barras',
+    evaluate: ([src, n]) => rolling(src as Vector, n as number, w => Math.min(...w)),
+  },
+  stdev: {
+    params: ['series', 'period'],
+    description: 'desvio padrão em n barras',
+    evaluate: ([src, n]) => rolling(src as Vector, n as number, w => {
+      const mean = w.reduce((acc, v) => acc + v, 0) / w.length;
+      return Math.sqrt(w.reduce((acc, v) => acc + (v - mean) ** 2, 0) / w.length);
+    }),
+  },
+  rsi: {
+    params: ['series', 'period'],
+    description: 'IFR de Wilder',
+    evaluate: ([src, n]) => skippingGaps(src as Vector, values => calculateRSI(values, n as number)),
+  },
+  ref: {
+    params: ['series', 'period'],
+    description: 'valor de n barras atrás',
+    evaluate: ([src, n]) => (src as Vector).map((_, i) => (i >= (n as number) ? (src as Vector)[i - (n as number)] : undefined)),
+  },
+  atr: {
+    params: ['period'],
+    description: 'ATR de Wilder da série',
+    evaluate: ([n], bars) => calculateATR(bars, n as number),
+  },
+  abs: {
+    params: ['series'],
+    description: 'valor absoluto',
+    evaluate: ([src]) => (src as Vector).map(v => (v === undefined ? undefined : Math.abs(v))),
+  },
+  min: {
+    params: ['series', 'series'],
+    description: 'menor entre dois valores',
+    evaluate: ([a, b]) => pointwise(a as Vector, b as Vector, Math.min),
+  },
+  max: {
+    params: ['series', 'series'],
+    description: 'maior entre dois valores',
+    evaluate: ([a, b]) => pointwise(a as Vector, b as Vector, Math.max),
+  },
+};
+
+export const FORMULA_FIELDS = Object.keys(FIELDS);
+
+// --- ANÁLISE SINTÁTICA ---
+
+type Token =
+  | { type: 'number'; value: number; pos: number }
+  | { type: 'ident'; value: string; pos: number }
+  | { type: 'symbol'; value: string; pos: number };
+
+type FormulaNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'field'; name: string }
+  | { kind: 'negate'; operand: FormulaNode }
+  | { kind: 'binary'; op: string; left: FormulaNode; right: FormulaNode }
+  | { kind: 'call'; name: string; args: FormulaNode[] };
+
+const tokenize = (formula: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < formula.length) {
+    const ch = formula[i];
+    if (/\s/.test(ch)) { i++; continue; }
+
+    const number = formula.slice(i).match(/^\d+(\.\d+)?/);
+    if (number) {
+      tokens.push({ type: 'number', value: parseFloat(number[0]), pos: i + 1 });
+      i += number[0].length;
+      continue;
+    }
+
+    const ident = formula.slice(i).match(/^[a-zA-Z_]\w*/);
+    if (ident) {
+      tokens.push({ type: 'ident', value: ident[0].toLowerCase(), pos: i + 1 });
+      i += ident[0].length;
+      continue;
+    }
+
+    if ('+-*/(),'.includes(ch)) {
+      tokens.push({ type: 'symbol', value: ch, pos: i + 1 });
+      i++;
+      continue;
+    }
+
+    throw new Error(`Caractere inválido "${ch}" na posição ${i + 1}.`);
+  }
+  return tokens;
+};
+
+const parse = (formula: string): FormulaNode => {
+  const tokens = tokenize(formula);
+  if (tokens.length === 0) throw new Error("Fórmula vazia.");
+
+  let index = 0;
+  const peek = () => tokens[index];
+  const isSymbol = (value: string) => peek()?.type === 'symbol' && peek()!.value === value;
+  const expect = (value: string) => {
+    if (!isSymbol(value)) {
+      const token = peek();
+      throw new Error(token ? `Esperado "${value}" na posição ${token.pos}.` : `Esperado "${value}" no fim da fórmula.`);
+    }
+    index++;
+  };
+
+  const parseExpression = (): FormulaNode => {
+    let node = parseTerm();
+    while (isSymbol('+') || isSymbol('-')) {
+      const op = tokens[index++].value as string;
+      node = { kind: 'binary', op, left: node, right: parseTerm() };
+    }
+    return node;
+  };
+
+  const parseTerm = (): FormulaNode => {
+    let node = parseUnary();
+    while (isSymbol('*') || isSymbol('/')) {
+      const op = tokens[index++].value as string;
+      node = { kind: 'binary', op, left: node, right: parseUnary() };
+    }
+    return node;
+  };
+
+  const parseUnary = (): FormulaNode => {
+    if (isSymbol('-')) {
+      index++;
+      return { kind: 'negate', operand: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = peek();
+    if (!token) throw new Error("Fórmula incompleta.");
+
+    if (token.type === 'number') {
+      index++;
+      return { kind: 'number', value: token.value };
+    }
+
+    if (isSymbol('(')) {
+      index++;
+      const node = parseExpression();
+      expect(')');
+      return node;
+    }
+
+    if (token.type === 'ident') {
+      index++;
+      if (!isSymbol('(')) {
+        if (!FIELDS[token.value]) {
+          throw new Error(`Campo desconhecido "${token.value}" na posição ${token.pos}. Use ${FORMULA_FIELDS.join(', ')}.`);
+        }
+        return { kind: 'field', name: token.value };
+      }
+
+      const fn = FORMULA_FUNCTIONS[token.value];
+      if (!fn) throw new Error(`Função desconhecida "${token.value}" na posição ${token.pos}.`);
+
+      index++;
+      const args: FormulaNode[] = [];
+      if (!isSymbol(')')) {
+        args.push(parseExpression());
+        while (isSymbol(',')) {
+          index++;
+          args.push(parseExpression());
+        }
+      }
+      expect(')');
+
+      if (args.length !== fn.params.length) {
+        throw new Error(`"${token.value}" espera ${fn.params.length} argumento(s), recebeu ${args.length}.`);
+      }
+      fn.params.forEach((kind, i) => {
+        const arg = args[i];
+        if (kind === 'period' && (arg.kind !== 'number' || !Number.isInteger(arg.value) || arg.value < 1)) {
+          throw new Error(`O período de "${token.value}" deve ser um número inteiro positivo.`);
+        }
+      });
+      return { kind: 'call', name: token.value, args };
+    }
+
+    throw new Error(`Símbolo inesperado "${token.value}" na posição ${token.pos}.`);
+  };
+
+  const root = parseExpression();
+  if (index < tokens.length) {
+    throw new Error(`Símbolo inesperado "${tokens[index].value}" na posição ${tokens[index].pos}.`);
+  }
+  return root;
+};
+
+// --- AVALIAÇÃO ---
+
+const evaluate = (node: FormulaNode, bars: FormulaBar[]): Vector => {
+  switch (node.kind) {
+    case 'number':
+      return new Array(bars.length).fill(node.value);
+    case 'field':
+      return bars.map(FIELDS[node.name]);
+    case 'negate':
+      return evaluate(node.operand, bars).map(v => (v === undefined ? undefined : -v));
+    case 'binary': {
+      const left = evaluate(node.left, bars);
+      const right = evaluate(node.right, bars);
+      switch (node.op) {
+        case '+': return pointwise(left, right, (a, b) => a + b);
+        case '-': return pointwise(left, right, (a, b) => a - b);
+        case '*': return pointwise(left, right, (a, b) => a * b);
+        default: return pointwise(left, right, (a, b) => a / b); // Divisão por zero vira undefined
+      }
+    }
+    case 'call': {
+      const fn = FORMULA_FUNCTIONS[node.name];
+      const args = node.args.map((arg, i) =>
+        fn.params[i] === 'period' ? (arg as { value: number }).value : evaluate(arg, bars)
+      );
+      return fn.evaluate(args, bars);
+    }
+  }
+};
+
+// Valida a fórmula e devolve o avaliador. Lança erro descritivo se a sintaxe for inválida.
+export const compileFormula = (formula: string) => {
+  const root = parse(formula);
+  return (bars: FormulaBar[]): Vector => evaluate(root, bars);
+};
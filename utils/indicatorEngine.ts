@@ -0,0 +1,157 @@
+import { AssetDataset, ColumnMapping, FinancialDataPoint, IndicatorSettings, JmaSettings } from '../types';
+import { getPriceSeries } from './corporateActions';
+import { detectPivots, describePivotSettings } from './pivotDetector';
+import { calculateEMA, calculateJMA } from './movingAverages';
+import { inferTickSize } from './renkoHelper';
+
+export const DEFAULT_INDICATOR_SETTINGS: IndicatorSettings = {
+  emaPeriod: 72,
+  jma: { length: 7, phase: 50, power: 2 },
+  pivots: { thresholdMode: 'percent', threshold: 3, atrPeriod: 14, leftBars: 2, rightBars: 2 },
+};
+
+// Comparação entre os valores do CSV e os calculados pelo app para um mesmo indicador
+export interface IndicatorComparisonRow {
+  date: string;
+  csv: number;
+  engine: number;
+}
+
+export interface IndicatorComparison {
+  label: string;
+  rows: IndicatorComparisonRow[];
+  meanAbsDiff: number;
+  meanPctDiff: number;
+  maxAbsDiff: number;
+  maxDiffDate?: string;
+}
+
+// Origem de cada indicador exibido: coluna do arquivo ou motor do app
+export type IndicatorSource = 'csv' | 'engine';
+
+export interface IndicatorSeries {
+  data: FinancialDataPoint[];
+  sources: { mm72: IndicatorSource; jma: IndicatorSource; topoFundo: IndicatorSource };
+  computed: string[]; // Descrição dos indicadores gerados pelo app (vai para o contexto da IA)
+  comparisons: IndicatorComparison[];
+  tickSize: number; // Passo de preço inferido dos preços brutos (base do tamanho automático dos tijolos)
+}
+
+export const resolveIndicatorSettings = (settings?: Partial<IndicatorSettings>): IndicatorSettings => ({
+  ...DEFAULT_INDICATOR_SETTINGS,
+  ...settings,
+  jma: { ...DEFAULT_INDICATOR_SETTINGS.jma, ...settings?.jma },
+  pivots: { ...DEFAULT_INDICATOR_SETTINGS.pivots, ...settings?.pivots },
+});
+
+const describeJMA = ({ length, phase, power }: JmaSettings) => `JMA(${length}, fase ${phase}, power ${power})`;
+
+const compareIndicator = (label: string, data: FinancialDataPoint[], csv: (number | undefined)[], engine: (number | undefined)[]): IndicatorComparison => {
+  const rows: IndicatorComparisonRow[] = [];
+  let sumAbs = 0;
+  let sumPct = 0;
+  let maxAbsDiff = 0;
+  let maxDiffDate: string | undefined;
+
+  data.forEach((d, i) => {
+    const csvValue = csv[i];
+    const engineValue = engine[i];
+    // Valor vazio no CSV é lido como 0; não entra na comparação
+    if (!csvValue || engineValue === undefined) return;
+
+    const diff = Math.abs(csvValue - engineValue);
+    rows.push({ date: d.date, csv: csvValue, engine: engineValue });
+    sumAbs += diff;
+    sumPct += (diff / Math.abs(csvValue)) * 100;
+    if (diff > maxAbsDiff) {
+      maxAbsDiff = diff;
+      maxDiffDate = d.date;
+    }
+  });
+
+  return {
+    label,
+    rows,
+    meanAbsDiff: rows.length ? sumAbs / rows.length : 0,
+    meanPctDiff: rows.length ? sumPct / rows.length : 0,
+    maxAbsDiff,
+    maxDiffDate,
+  };
+};
+
+// Completa os indicadores ausentes no CSV com os calculados pelo app.
+// Quando o CSV já traz a coluna, o valor do arquivo prevalece e o cálculo serve só para comparação.
+export const applyIndicators = (
+  data: FinancialDataPoint[],
+  hasColumn: { mm72: boolean; jma: boolean; topoFundo: boolean },
+  settings: IndicatorSettings
+): Omit<IndicatorSeries, 'tickSize'> => {
+  const closes = data.map(d => d.close);
+  const ema = calculateEMA(closes, settings.emaPeriod);
+  const jma = calculateJMA(closes, settings.jma);
+
+  const computed: string[] = [];
+  const comparisons: IndicatorComparison[] = [];
+
+  if (hasColumn.mm72) {
+    comparisons.push(compareIndicator(`MM72 × EMA(${settings.emaPeriod})`, data, data.map(d => d.mm72), ema));
+  } else {
+    computed.push(`MM72 = média exponencial de ${settings.emaPeriod} períodos dos fechamentos, calculada pelo app`);
+  }
+
+  if (hasColumn.jma) {
+    comparisons.push(compareIndicator(`JMA × ${describeJMA(settings.jma)}`, data, data.map(d => d.jma), jma));
+  } else {
+    computed.push(`JMA = média adaptativa estilo Jurik ${describeJMA(settings.jma)} dos fechamentos, calculada pelo app`);
+  }
+
+  // Topos/Fundos não têm comparação numérica: a coluna do CSV só traz valor nos pivots
+  const pivots = hasColumn.topoFundo ? [] : detectPivots(data, settings.pivots);
+  if (!hasColumn.topoFundo) {
+    computed.push(`Topos/Fundos = pivots detectados pelo app (${describePivotSettings(settings.pivots)})`);
+  }
+
+  const sources = {
+    mm72: hasColumn.mm72 ? 'csv' : 'engine',
+    jma: hasColumn.jma ? 'csv' : 'engine',
+    topoFundo: hasColumn.topoFundo ? 'csv' : 'engine',
+  } as const;
+
+  if (computed.length === 0) return { data, sources, computed, comparisons };
+
+  return {
+    sources,
+    data: data.map((d, i) => ({
+      ...d,
+      mm72: hasColumn.mm72 ? d.mm72 : ema[i],
+      jma: hasColumn.jma ? d.jma : jma[i],
+      topoFundo: hasColumn.topoFundo ? d.topoFundo : pivots[i],
+    })),
+    computed,
+    comparisons,
+  };
+};
+
+// Campos do ativo dos quais a série depende (o CSV bruto fica de fora ao enviar ao worker)
+export type IndicatorInput = Pick<AssetDataset, 'data' | 'corporateEvents' | 'priceMode' | 'indicatorSettings'> & {
+  source: { mapping: Pick<ColumnMapping, 'mm72' | 'jma' | 'topoFundo'> };
+};
+
+export const sameIndicatorInput = (a: IndicatorInput, b: IndicatorInput) =>
+  a.data === b.data &&
+  a.corporateEvents === b.corporateEvents &&
+  a.priceMode === b.priceMode &&
+  a.indicatorSettings === b.indicatorSettings &&
+  a.source.mapping.mm72 === b.source.mapping.mm72 &&
+  a.source.mapping.jma === b.source.mapping.jma &&
+  a.source.mapping.topoFundo === b.source.mapping.topoFundo;
+
+// Série final do ativo: modo de preço (bruto/ajustado) + indicadores do app
+export const getIndicatorSeries = (dataset: IndicatorInput): IndicatorSeries => ({
+  ...applyIndicators(
+    getPriceSeries(dataset),
+    { mm72: !!dataset.source.mapping.mm72, jma: !!dataset.source.mapping.jma, topoFundo: !!dataset.source.mapping.topoFundo },
+    resolveIndicatorSettings(dataset.indicatorSettings)
+  ),
+  tickSize: inferTickSize(dataset.data),
+});
@@ -0,0 +1,40 @@
+import { ColumnMapping, DateFormat, MappingProfile } from '../types';
+
+const STORAGE_KEY = 'csv_mapping_profiles';
+
+export const loadMappingProfiles = (): MappingProfile[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (e) {
+    console.error("Failed to read mapping profiles", e);
+    return [];
+  }
+};
+
+const persistProfiles = (profiles: MappingProfile[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+};
+
+export const findProfileBySignature = (headerSignature: string): MappingProfile | undefined =>
+  loadMappingProfiles().find(p => p.headerSignature === headerSignature);
+
+// Nome já usado pelo perfil de outro cabeçalho (salvar apagaria o perfil do outro layout)
+export const isProfileNameTaken = (name: string, headerSignature: string, profiles = loadMappingProfiles()) =>
+  profiles.some(p => p.name === name && p.headerSignature !== headerSignature);
+
+// Salva (ou substitui) o perfil. Cada assinatura de cabeçalho tem no máximo um perfil e cada nome identifica um só perfil.
+export const saveMappingProfile = (name: string, headerSignature: string, mapping: ColumnMapping, dateFormat: DateFormat = 'auto'): MappingProfile => {
+  const profiles = loadMappingProfiles();
+  if (isProfileNameTaken(name, headerSignature, profiles)) {
+    throw new Error(`Já existe um perfil "${name}" para outro cabeçalho. Escolha outro nome.`);
+  }
+  const profile: MappingProfile = { name, headerSignature, mapping, dateFormat, createdAt: Date.now() };
+  const others = profiles.filter(p => p.headerSignature !== headerSignature);
+  persistProfiles([...others, profile]);
+  return profile;
+};
+
+export const deleteMappingProfile = (name: string) => {
+  persistProfiles(loadMappingProfiles().filter(p => p.name !== name));
+};
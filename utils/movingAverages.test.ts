@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { JmaSettings } from '../types';
+import { calculateEMA, calculateJMA, createEMA, createJMA, IncrementalIndicator } from './movingAverages';
+import { randomWalk } from './randomWalk';
+
+// Feed ao vivo: cada valor entra por push com uma prévia e é corrigido por amend até o valor final
+const replay = (indicator: IncrementalIndicator, values: number[]) =>
+  values.map((value, i) => {
+    indicator.push(values[i - 1] ?? value);
+    indicator.amend(value + 1);
+    return indicator.amend(value);
+  });
+
+describe('médias móveis incrementais', () => {
+  const values = randomWalk(11, 400, { step: 3 }).map(bar => bar.close);
+
+  it.each([1, 2, 9, 21, 200])('EMA(%i): push/amend igual a calculateEMA', period => {
+    const expected = calculateEMA(values, period);
+    expect(values.map(createEMA(period).push)).toEqual(expected);
+    expect(replay(createEMA(period), values)).toEqual(expected);
+  });
+
+  it('EMA só é definida a partir do período', () => {
+    const ema = calculateEMA([1, 2, 3, 4], 3);
+    expect(ema.slice(0, 2)).toEqual([undefined, undefined]);
+    expect(ema[2]).toBe(2);
+    expect(ema[3]).toBe(3);
+  });
+
+  const jmaCases: JmaSettings[] = [
+    { length: 7, phase: 50, power: 2 },
+    { length: 14, phase: -100, power: 1 },
+    { length: 30, phase: 150, power: 3 },
+  ];
+
+  it.each(jmaCases)('JMA %o: push/amend igual a calculateJMA', settings => {
+    const expected = calculateJMA(values, settings);
+    expect(values.map(createJMA(settings).push)).toEqual(expected);
+    expect(replay(createJMA(settings), values)).toEqual(expected);
+  });
+});
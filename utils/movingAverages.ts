@@ -0,0 +1,66 @@
+import { JmaSettings } from '../types';
+
+// Cálculo incremental: `push` acrescenta um valor em O(1); `amend` refaz o último valor
+// (candle em formação de um feed ao vivo) a partir do estado anterior a ele.
+export interface IncrementalIndicator<T = number> {
+  push: (value: T) => number | undefined;
+  amend: (value: T) => number | undefined;
+}
+
+export const createIncremental = <S, T>(initial: S, step: (state: S, value: T) => [S, number | undefined]): IncrementalIndicator<T> => {
+  let committed = initial;
+  let current = initial;
+  const apply = (value: T) => {
+    const [state, output] = step(committed, value);
+    current = state;
+    return output;
+  };
+  return {
+    push: (value) => {
+      committed = current;
+      return apply(value);
+    },
+    amend: apply,
+  };
+};
+
+// Média móvel exponencial clássica: semente = média simples dos primeiros `period` valores.
+// Antes da semente o valor é undefined.
+export const createEMA = (period: number) => {
+  const alpha = 2 / (period + 1);
+  return createIncremental<{ count: number; sum: number; ema?: number }, number>({ count: 0, sum: 0 }, ({ count, sum, ema }, value) => {
+    if (period < 1) return [{ count, sum }, undefined];
+    if (count + 1 < period) return [{ count: count + 1, sum: sum + value }, undefined];
+    const next = ema === undefined ? (sum + value) / period : alpha * value + (1 - alpha) * ema;
+    return [{ count: count + 1, sum, ema: next }, next];
+  });
+};
+
+export const calculateEMA = (values: number[], period: number): (number | undefined)[] => {
+  const ema = createEMA(period);
+  return values.map(ema.push);
+};
+
+// Média adaptativa no estilo Jurik (formulação pública de três estágios: suavização adaptativa,
+// correção de fase e filtro de Kalman). Definida desde o primeiro valor, partindo do próprio preço.
+export const createJMA = ({ length, phase, power }: JmaSettings) => {
+  const phaseRatio = phase < -100 ? 0.5 : phase > 100 ? 2.5 : phase / 100 + 1.5;
+  const beta = (0.45 * (length - 1)) / (0.45 * (length - 1) + 2);
+  const alpha = Math.pow(beta, power);
+
+  type JmaState = { e0: number; e1: number; e2: number; jma: number } | null;
+  return createIncremental<JmaState, number>(null, (state, src) => {
+    if (length < 1) return [null, undefined];
+    if (!state) return [{ e0: src, e1: 0, e2: 0, jma: src }, src];
+    const e0 = (1 - alpha) * src + alpha * state.e0;
+    const e1 = (src - e0) * (1 - beta) + beta * state.e1;
+    const e2 = (e0 + phaseRatio * e1 - state.jma) * Math.pow(1 - alpha, 2) + Math.pow(alpha, 2) * state.e2;
+    const jma = e2 + state.jma;
+    return [{ e0, e1, e2, jma }, jma];
+  });
+};
+
+export const calculateJMA = (values: number[], settings: JmaSettings): (number | undefined)[] => {
+  const jma = createJMA(settings);
+  return values.map(jma.push);
+};
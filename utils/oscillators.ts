@@ -0,0 +1,107 @@
+import { calculateEMA, createIncremental } from './movingAverages';
+
+// Barra mínima para os cálculos de volatilidade (candles ou tijolos com pavio)
+export interface RangeBar {
+  high: number;
+  low: number;
+  close: number;
+}
+
+// ATR de Wilder: média suavizada do True Range. Semente = média simples dos primeiros `period` TRs.
+export const createATR = (period: number) =>
+  createIncremental<{ count: number; sum: number; prevClose?: number; atr?: number }, RangeBar>({ count: 0, sum: 0 }, (state, { high, low, close }) => {
+    const trueRange = state.prevClose === undefined
+      ? high - low
+      : Math.max(high - low, Math.abs(high - state.prevClose), Math.abs(low - state.prevClose));
+    const count = state.count + 1;
+    if (period < 1) return [{ count, sum: 0, prevClose: close }, undefined];
+    if (count < period) return [{ count, sum: state.sum + trueRange, prevClose: close }, undefined];
+
+    const atr = state.atr === undefined ? (state.sum + trueRange) / period : (state.atr * (period - 1) + trueRange) / period;
+    return [{ count, sum: state.sum, prevClose: close, atr }, atr];
+  });
+
+export const calculateATR = (bars: RangeBar[], period: number): (number | undefined)[] => {
+  const atr = createATR(period);
+  return bars.map(atr.push);
+};
+
+// Parâmetros clássicos dos osciladores exibidos nos painéis abaixo do preço
+export const OSCILLATOR_SETTINGS = {
+  rsiPeriod: 14,
+  macd: { fast: 12, slow: 26, signal: 9 },
+  stochastic: { kPeriod: 14, dPeriod: 3 },
+  atrPeriod: 14,
+};
+
+// IFR de Wilder (0 a 100). Semente = médias simples de ganhos e perdas dos primeiros `period` deltas.
+export const calculateRSI = (values: number[], period: number): (number | undefined)[] => {
+  const result: (number | undefined)[] = new Array(values.length).fill(undefined);
+  if (period < 1 || values.length <= period) return result;
+
+  const toRSI = (gain: number, loss: number) => (loss === 0 ? (gain === 0 ? 50 : 100) : 100 - 100 / (1 + gain / loss));
+
+  let gain = 0;
+  let loss = 0;
+  for (let i = 1; i <= period; i++) {
+    const delta = values[i] - values[i - 1];
+    if (delta > 0) gain += delta; else loss -= delta;
+  }
+  gain /= period;
+  loss /= period;
+  result[period] = toRSI(gain, loss);
+
+  for (let i = period + 1; i < values.length; i++) {
+    const delta = values[i] - values[i - 1];
+    gain = (gain * (period - 1) + Math.max(delta, 0)) / period;
+    loss = (loss * (period - 1) + Math.max(-delta, 0)) / period;
+    result[i] = toRSI(gain, loss);
+  }
+  return result;
+};
+
+export interface MACDSeries {
+  macd: (number | undefined)[];
+  signal: (number | undefined)[];
+  histogram: (number | undefined)[];
+}
+
+// MACD = EMA rápida - EMA lenta; sinal = EMA do MACD a partir do primeiro valor definido
+export const calculateMACD = (values: number[], fast: number, slow: number, signalPeriod: number): MACDSeries => {
+  const fastEma = calculateEMA(values, fast);
+  const slowEma = calculateEMA(values, slow);
+  const macd = values.map((_, i) => (fastEma[i] !== undefined && slowEma[i] !== undefined ? fastEma[i]! - slowEma[i]! : undefined));
+
+  const start = macd.findIndex(v => v !== undefined);
+  const signal: (number | undefined)[] = new Array(values.length).fill(undefined);
+  if (start >= 0) {
+    calculateEMA(macd.slice(start) as number[], signalPeriod).forEach((v, i) => { signal[start + i] = v; });
+  }
+
+  const histogram = macd.map((v, i) => (v !== undefined && signal[i] !== undefined ? v - signal[i]! : undefined));
+  return { macd, signal, histogram };
+};
+
+// Estocástico: %K = posição do fechamento na faixa máxima/mínima de `kPeriod` barras; %D = média simples de %K
+export const calculateStochastic = (bars: RangeBar[], kPeriod: number, dPeriod: number) => {
+  const k: (number | undefined)[] = new Array(bars.length).fill(undefined);
+  const d: (number | undefined)[] = new Array(bars.length).fill(undefined);
+  if (kPeriod < 1 || bars.length < kPeriod) return { k, d };
+
+  for (let i = kPeriod - 1; i < bars.length; i++) {
+    let highest = -Infinity;
+    let lowest = Infinity;
+    for (let j = i - kPeriod + 1; j <= i; j++) {
+      if (bars[j].high > highest) highest = bars[j].high;
+      if (bars[j].low < lowest) lowest = bars[j].low;
+    }
+    k[i] = highest === lowest ? 50 : ((bars[i].close - lowest) / (highest - lowest)) * 100;
+
+    if (i >= kPeriod - 1 + dPeriod - 1) {
+      let sum = 0;
+      for (let j = i - dPeriod + 1; j <= i; j++) sum += k[j]!;
+      d[i] = sum / dPeriod;
+    }
+  }
+  return { k, d };
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { PivotSettings } from '../types';
+import { createPivotTracker, detectPivots, Pivot, PivotUpdate } from './pivotDetector';
+import { randomWalk } from './randomWalk';
+
+const toSeries = (length: number, pivots: Pivot[]) => {
+  const result: (number | undefined)[] = new Array(length).fill(undefined);
+  pivots.forEach(p => { result[p.index] = p.price; });
+  return result;
+};
+
+// Aplica a atualização como um consumidor incremental (substitui a lista a partir de `from`)
+const applyUpdate = (list: Pivot[], { from, pivots }: PivotUpdate) => {
+  list.length = from;
+  list.push(...pivots);
+};
+
+describe('createPivotTracker: push/amend', () => {
+  const bars = randomWalk(3, 250, { step: 6 });
+  const cases: PivotSettings[] = [
+    { thresholdMode: 'percent', threshold: 3, atrPeriod: 14, leftBars: 2, rightBars: 2 },
+    { thresholdMode: 'absolute', threshold: 4, atrPeriod: 14, leftBars: 3, rightBars: 1 },
+    { thresholdMode: 'atr', threshold: 1.5, atrPeriod: 14, leftBars: 2, rightBars: 3 },
+    { thresholdMode: 'atr', threshold: 2, atrPeriod: 5, leftBars: 0, rightBars: 0 },
+  ];
+
+  it.each(cases)('push igual a detectPivots a cada barra (%o)', settings => {
+    const tracker = createPivotTracker(settings);
+    const list: Pivot[] = [];
+    bars.forEach((bar, i) => {
+      applyUpdate(list, tracker.push(bar));
+      expect(list).toEqual(tracker.pivots());
+      expect(toSeries(i + 1, list)).toEqual(detectPivots(bars.slice(0, i + 1), settings));
+    });
+  });
+
+  it.each(cases)('amend da barra em formação igual a detectPivots (%o)', settings => {
+    const tracker = createPivotTracker(settings);
+    const list: Pivot[] = [];
+    bars.forEach((bar, i) => {
+      // A barra abre sem amplitude, estica além dos extremos finais e é corrigida para o valor final
+      applyUpdate(list, tracker.push({ high: bar.close, low: bar.close, close: bar.close }));
+      applyUpdate(list, tracker.amend({ high: bar.high + 3, low: bar.low - 3, close: bar.close }));
+      applyUpdate(list, tracker.amend(bar));
+      expect(toSeries(i + 1, list)).toEqual(detectPivots(bars.slice(0, i + 1), settings));
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { PivotSettings } from '../types';
+import { createATR, RangeBar } from './oscillators';
+
+// Barra mínima para detecção: candles usam high/low; tijolos Renko usam os pavios (wickBounds)
+export type PivotBar = RangeBar;
+
+export interface Pivot {
+  index: number;
+  type: 'top' | 'bottom';
+  price: number;
+}
+
+const isSwingHigh = (bars: PivotBar[], i: number, left: number, right: number) => {
+  for (let j = i - left; j < i; j++) if (bars[j].high >= bars[i].high) return false;
+  for (let j = i + 1; j <= i + right; j++) if (bars[j].high > bars[i].high) return false;
+  return true;
+};
+
+const isSwingLow = (bars: PivotBar[], i: number, left: number, right: number) => {
+  for (let j = i - left; j < i; j++) if (bars[j].low <= bars[i].low) return false;
+  for (let j = i + 1; j <= i + right; j++) if (bars[j].low < bars[i].low) return false;
+  return true;
+};
+
+export const describePivotSettings = ({ thresholdMode, threshold, atrPeriod, leftBars, rightBars }: PivotSettings) => {
+  const reversal = thresholdMode === 'percent' ? `${threshold}%` : thresholdMode === 'absolute' ? `${threshold} pts` : `${threshold}× ATR(${atrPeriod})`;
+  return `reversão mínima ${reversal}, força ${leftBars}/${rightBars}`;
+};
+
+// Detecta topos e fundos só com preço:
+// 1. Candidatos: máxima (mínima) maior (menor) que `leftBars` barras antes e `rightBars` depois.
+// 2. ZigZag: candidatos do mesmo tipo em sequência mantêm o mais extremo; um candidato oposto só
+//    confirma o pivot pendente se a distância atingir a reversão mínima.
+// Incremental: cada barra nova avalia só o candidato que acabou de ter `rightBars` barras à direita.
+// `amend` substitui a última barra (candle em formação) desfazendo o que ela havia decidido.
+// Pivots novos ou refeitos: o consumidor substitui a lista a partir de `from` por `pivots`
+export interface PivotUpdate {
+  from: number;
+  pivots: Pivot[];
+}
+
+export interface PivotTracker {
+  push: (bar: PivotBar) => PivotUpdate;
+  amend: (bar: PivotBar) => PivotUpdate;
+  pivots: () => Pivot[]; // Confirmados + o pendente (perna em andamento)
+}
+
+interface ZigZagState {
+  pending: Pivot | null;
+  confirmed: number; // Quantidade de pivots confirmados (a lista só cresce)
+  deferred: number[]; // Candidatos à espera do primeiro ATR (só no modo ATR, nas primeiras barras)
+}
+
+export const createPivotTracker = (settings: PivotSettings): PivotTracker => {
+  const left = Math.max(0, Math.round(settings.leftBars));
+  const right = Math.max(0, Math.round(settings.rightBars));
+  const usesAtr = settings.thresholdMode === 'atr' && settings.atrPeriod >= 1;
+  const atrIndicator = createATR(settings.atrPeriod);
+
+  const bars: PivotBar[] = [];
+  const atr: (number | undefined)[] = [];
+  const confirmed: Pivot[] = [];
+  let firstAtr: number | undefined;
+  let committed: ZigZagState = { pending: null, confirmed: 0, deferred: [] };
+  let current = committed;
+
+  const minReversal = (pivot: Pivot, index: number) => {
+    if (settings.thresholdMode === 'percent') return (pivot.price * settings.threshold) / 100;
+    if (settings.thresholdMode === 'absolute') return settings.threshold;
+    // ATR ainda em aquecimento: usa o primeiro valor disponível depois
+    return (atr[index] ?? firstAtr ?? 0) * settings.threshold;
+  };
+
+  const consider = (state: ZigZagState, list: Pivot[], candidate: Pivot) => {
+    const pending = state.pending;
+    if (!pending) {
+      state.pending = candidate;
+      return;
+    }
+    if (candidate.type === pending.type) {
+      const moreExtreme = candidate.type === 'top' ? candidate.price >= pending.price : candidate.price <= pending.price;
+      if (moreExtreme) state.pending = candidate;
+      return;
+    }
+    if (Math.abs(candidate.price - pending.price) >= minReversal(pending, candidate.index)) {
+      list.push(pending);
+      state.confirmed++;
+      state.pending = candidate;
+    }
+  };
+
+  const evaluate = (state: ZigZagState, list: Pivot[], i: number) => {
+    const high = isSwingHigh(bars, i, left, right);
+    const low = isSwingLow(bars, i, left, right);
+
+    // Barra de expansão (topo e fundo ao mesmo tempo): avalia primeiro o lado que continua a perna atual
+    const order: Pivot['type'][] = state.pending?.type === 'bottom' ? ['bottom', 'top'] : ['top', 'bottom'];
+    order.forEach(type => {
+      if (type === 'top' && high) consider(state, list, { index: i, type, price: bars[i].high });
+      if (type === 'bottom' && low) consider(state, list, { index: i, type, price: bars[i].low });
+    });
+  };
+
+  // Lista a partir do pivot `from`: confirmados + o pendente (perna em andamento)
+  const pivotsFrom = (from: number): Pivot[] => {
+    if (current.deferred.length === 0) {
+      const tail = confirmed.slice(from);
+      return current.pending ? [...tail, current.pending] : tail;
+    }
+    // Série ainda mais curta que o período do ATR: reversão mínima zero, como no cálculo completo
+    const state: ZigZagState = { ...current, deferred: [] };
+    const list = confirmed.slice(from);
+    current.deferred.forEach(i => evaluate(state, list, i));
+    return state.pending ? [...list, state.pending] : list;
+  };
+
+  // Processa a última barra a partir do estado anterior a ela
+  const apply = (): PivotUpdate => {
+    confirmed.length = committed.confirmed;
+    const state: ZigZagState = { ...committed, deferred: [...committed.deferred] };
+    const last = bars.length - 1;
+    // O ATR de Wilder surge na barra `atrPeriod - 1` (que também pode ser a refeita por amend)
+    if (usesAtr && last === Math.ceil(settings.atrPeriod) - 1) firstAtr = atr[last];
+
+    const candidate = last - right;
+    if (candidate >= left) state.deferred.push(candidate);
+    if (!usesAtr || firstAtr !== undefined) {
+      state.deferred.forEach(i => evaluate(state, confirmed, i));
+      state.deferred = [];
+    }
+    current = state;
+    return { from: committed.confirmed, pivots: pivotsFrom(committed.confirmed) };
+  };
+
+  return {
+    push: (bar) => {
+      committed = current;
+      bars.push(bar);
+      atr.push(atrIndicator.push(bar));
+      return apply();
+    },
+    amend: (bar) => {
+      if (bars.length === 0) return { from: 0, pivots: [] };
+      bars[bars.length - 1] = bar;
+      atr[atr.length - 1] = atrIndicator.amend(bar);
+      return apply();
+    },
+    pivots: () => pivotsFrom(0),
+  };
+};
+
+// Retorna, por barra, o preço do pivot (máxima no topo, mínima no fundo) ou undefined.
+export const detectPivots = (bars: PivotBar[], settings: PivotSettings): (number | undefined)[] => {
+  const result: (number | undefined)[] = new Array(bars.length).fill(undefined);
+  const tracker = createPivotTracker(settings);
+  bars.forEach(tracker.push);
+  tracker.pivots().forEach(p => { result[p.index] = p.price; });
+  return result;
+};
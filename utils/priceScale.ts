@@ -0,0 +1,80 @@
+// Escalas do eixo de preço. O eixo continua em preço em todos os modos (séries, zonas e desenhos
+// não mudam): a escala log altera o mapeamento e a percentual só as marcações e os rótulos.
+import { PriceScale } from '../types';
+
+export const PRICE_SCALE_LABELS: Record<PriceScale, string> = {
+  linear: 'Linear',
+  log: 'Log',
+  percent: '%',
+};
+
+// Folga acima e abaixo dos dados visíveis
+const DOMAIN_PADDING = 0.1;
+
+// Domínio com folga: proporcional ao intervalo na escala linear e ao intervalo em log10 na logarítmica
+export const paddedDomain = (min: number, max: number, scale: PriceScale): [number, number] => {
+  if (scale === 'log') {
+    const lo = Math.log10(min);
+    const hi = Math.log10(max);
+    const padding = (hi - lo) * DOMAIN_PADDING || 0.004; // ~1% quando todos os valores são iguais
+    return [10 ** (lo - padding), 10 ** (hi + padding)];
+  }
+  const padding = (max - min) * DOMAIN_PADDING || (max * 0.01);
+  return [min - padding, max + padding];
+};
+
+// Passo "redondo" (1, 2, 2.5 ou 5 × 10^k) para cerca de `count` intervalos
+const niceStep = (span: number, count: number) => {
+  const raw = span / count;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const normalized = raw / magnitude;
+  const nice = normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 2.5 ? 2.5 : normalized <= 5 ? 5 : 10;
+  return nice * magnitude;
+};
+
+// Remove o ruído de ponto flutuante (ex: 0.30000000000000004)
+const clean = (value: number) => Number(value.toPrecision(12));
+
+export const linearTicks = (min: number, max: number, count = 6): number[] => {
+  if (!(max > min)) return [min];
+  const step = niceStep(max - min, count);
+  const ticks: number[] = [];
+  for (let k = Math.ceil(min / step - 1e-9); k * step <= max + step * 1e-9; k++) ticks.push(clean(k * step));
+  return ticks;
+};
+
+// Dígitos marcados em cada década, do mais espaçado ao mais denso
+const LOG_MANTISSAS = [[1], [1, 2, 5], [1, 2, 3, 4, 5, 6, 7, 8, 9]];
+const MIN_LOG_TICKS = 4;
+
+// Marcações da escala log: potências de 10, depois 1-2-5 e todos os dígitos de cada década.
+// Faixas estreitas demais (menos de 4 marcações mesmo com todos os dígitos) usam passos lineares.
+export const logTicks = (min: number, max: number): number[] => {
+  if (!(min > 0) || !(max > min)) return [min];
+  const fromExp = Math.floor(Math.log10(min));
+  const toExp = Math.ceil(Math.log10(max));
+
+  for (const mantissas of LOG_MANTISSAS) {
+    const ticks: number[] = [];
+    for (let exp = fromExp; exp <= toExp; exp++) {
+      mantissas.forEach(m => {
+        const value = clean(m * 10 ** exp);
+        if (value >= min && value <= max) ticks.push(value);
+      });
+    }
+    if (ticks.length >= MIN_LOG_TICKS) return ticks;
+  }
+  return linearTicks(min, max);
+};
+
+// Variação percentual de `price` sobre a base (fechamento da primeira barra visível)
+export const toPercent = (price: number, base: number) => (price / base - 1) * 100;
+
+// Marcações em valores redondos de %, convertidas de volta para preço (posição no eixo)
+export const percentTicks = (min: number, max: number, base: number): number[] =>
+  linearTicks(toPercent(min, base), toPercent(max, base)).map(pct => base * (1 + pct / 100));
+
+export const formatPercent = (pct: number) => {
+  const rounded = Math.round(pct * 100) / 100 || 0; // Evita "-0%"
+  return `${rounded > 0 ? '+' : ''}${rounded.toLocaleString('pt-BR', { maximumFractionDigits: 2 })}%`;
+};
@@ -0,0 +1,21 @@
+// Passeio aleatório determinístico (gerador congruencial linear), usado como série de teste
+// nos cálculos incrementais. A mesma semente sempre gera as mesmas barras.
+export interface RandomWalkOptions {
+  start?: number; // Primeiro preço
+  step?: number; // Variação máxima entre fechamentos
+  wick?: number; // Pavio máximo além do corpo
+  min?: number; // Piso de fechamento e mínima (preços positivos para o modo percentual)
+}
+
+export const randomWalk = (seed: number, length: number, { start = 100, step = 4, wick = 2, min = -Infinity }: RandomWalkOptions = {}) => {
+  let state = seed;
+  const random = () => (state = (state * 1103515245 + 12345) % 2147483648) / 2147483648;
+  let close = start;
+  return Array.from({ length }, () => {
+    const open = close;
+    close = Math.max(min, open + (random() - 0.5) * step);
+    const high = Math.max(open, close) + random() * wick;
+    const low = Math.max(min, Math.min(open, close) - random() * wick);
+    return { open, high, low, close };
+  });
+};
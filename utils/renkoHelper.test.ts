@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+import { FinancialDataPoint, IntrabarOrder } from '../types';
+import { calculateRenkoBricks, createRenkoBuilder, getIntrabarPath, inferTickSize, RenkoBox, RenkoBrick, RenkoOptions } from './renkoHelper';
+import { randomWalk } from './randomWalk';
+
+const bar = (day: number, open: number, high: number, low: number, close: number): FinancialDataPoint => ({
+  date: `2024-01-${String(day).padStart(2, '0')}`,
+  timestamp: day,
+  open,
+  high,
+  low,
+  close,
+  volume: 100,
+});
+
+const closes = (values: number[]) => values.map((close, i) => bar(i + 1, close, close, close, close));
+
+// Sequência compacta: "+10>11" = tijolo de alta de 10 a 11
+const sequence = (bricks: RenkoBrick[]) => bricks.map(b => `${b.type === 'up' ? '+' : '-'}${b.open}>${b.close}`);
+
+const build = (data: FinancialDataPoint[], options: RenkoOptions) =>
+  sequence(calculateRenkoBricks(data, { mode: 'fixed', size: 1 }, options));
+
+describe('getIntrabarPath', () => {
+  const bullish = bar(1, 10, 12, 9, 11);
+  const bearish = bar(1, 11, 12, 9, 10);
+
+  it('usa só o fechamento no modo close', () => {
+    expect(getIntrabarPath(bullish)).toEqual([11]);
+  });
+
+  it('ordena os extremos pela configuração ou pela cor do candle', () => {
+    expect(getIntrabarPath(bullish, 'highLow', 'highFirst')).toEqual([10, 12, 9, 11]);
+    expect(getIntrabarPath(bullish, 'highLow', 'lowFirst')).toEqual([10, 9, 12, 11]);
+    expect(getIntrabarPath(bullish, 'highLow', 'candle')).toEqual([10, 9, 12, 11]);
+    expect(getIntrabarPath(bearish, 'highLow', 'candle')).toEqual([11, 12, 9, 10]);
+  });
+});
+
+describe('calculateRenkoBricks: fechamento', () => {
+  const data = closes([10.5, 12.2, 11.1, 9.9, 8.6, 11.5]);
+
+  it.each([
+    [1, ['+10>11', '+11>12', '-12>11', '-11>10', '-10>9', '+9>10', '+10>11']],
+    [2, ['+10>11', '+11>12', '-11>10', '-10>9', '+10>11']],
+    [3, ['+10>11', '+11>12', '-11>10', '-10>9']],
+  ])('reversão com %i tijolo(s)', (reversal, expected) => {
+    expect(build(data, { reversal, source: 'close' })).toEqual(expected);
+  });
+});
+
+describe('calculateRenkoBricks: máxima/mínima', () => {
+  // O segundo candle atravessa vários níveis nos dois sentidos
+  const data = [
+    bar(1, 10.5, 10.8, 10.2, 10.6),
+    bar(2, 10.6, 12.4, 8.7, 11.2),
+    bar(3, 11.2, 11.4, 9.6, 9.8),
+  ];
+
+  const cases: [IntrabarOrder, number, string[]][] = [
+    ['highFirst', 1, ['+10>11', '+11>12', '-12>11', '-11>10', '-10>9', '+9>10', '+10>11', '-11>10']],
+    ['highFirst', 2, ['+10>11', '+11>12', '-11>10', '-10>9', '+10>11']],
+    ['highFirst', 3, ['+10>11', '+11>12', '-11>10', '-10>9']],
+    ['lowFirst', 1, ['-10>9', '+9>10', '+10>11', '+11>12', '-12>11', '-11>10', '+10>11', '-11>10']],
+    ['lowFirst', 2, ['-10>9', '+10>11', '+11>12', '-11>10']],
+    ['lowFirst', 3, ['-10>9', '+10>11', '+11>12']],
+    ['candle', 1, ['-10>9', '+9>10', '+10>11', '+11>12', '-12>11', '-11>10']],
+    ['candle', 2, ['-10>9', '+10>11', '+11>12', '-11>10']],
+    ['candle', 3, ['-10>9', '+10>11', '+11>12']],
+  ];
+
+  it.each(cases)('ordem %s, reversão com %i tijolo(s)', (intrabarOrder, reversal, expected) => {
+    expect(build(data, { reversal, source: 'highLow', intrabarOrder })).toEqual(expected);
+  });
+
+  it('um único candle forma tijolos nos dois sentidos', () => {
+    const bricks = calculateRenkoBricks(data.slice(0, 2), { mode: 'fixed', size: 1 }, { source: 'highLow', intrabarOrder: 'highFirst' });
+    expect(bricks.every(b => b.date === '2024-01-02')).toBe(true);
+    expect(new Set(bricks.map(b => b.type))).toEqual(new Set(['up', 'down']));
+    // Pavios do candle vão para o tijolo mais alto e o mais baixo; o volume é dividido entre os tijolos
+    expect(Math.max(...bricks.map(b => b.wickBounds[1]))).toBe(12.4);
+    expect(Math.min(...bricks.map(b => b.wickBounds[0]))).toBe(8.7);
+    expect(bricks.reduce((sum, b) => sum + b.volume, 0)).toBeCloseTo(200);
+  });
+});
+
+describe('calculateRenkoBricks: candles inválidos', () => {
+  const valid = closes([100, 103, 106, 101]);
+  const percent: RenkoBox = { mode: 'percent', percent: 2 };
+
+  it('a grade percentual começa no primeiro candle com preço positivo', () => {
+    const data = [bar(1, 0, 0, 0, 0), bar(2, NaN, NaN, NaN, NaN), ...valid];
+    expect(sequence(calculateRenkoBricks(data, percent))).toEqual(sequence(calculateRenkoBricks(valid, percent)));
+    expect(calculateRenkoBricks(data, percent).length).toBeGreaterThan(0);
+  });
+
+  it('candles inválidos no meio da série são ignorados', () => {
+    const data = [...valid.slice(0, 2), bar(9, -1, -1, -1, -1), bar(9, NaN, NaN, NaN, NaN), ...valid.slice(2)];
+    expect(sequence(calculateRenkoBricks(data, percent))).toEqual(sequence(calculateRenkoBricks(valid, percent)));
+    expect(build([bar(1, NaN, NaN, NaN, NaN), ...closes([10.5, 12.2])], {})).toEqual(['+10>11', '+11>12']);
+  });
+});
+
+describe('createRenkoBuilder: push/amend', () => {
+  // Candle em formação: abre no push e é refeito por amend até o fechamento final
+  const forming = (point: FinancialDataPoint): FinancialDataPoint[] => {
+    const mid = (point.open + point.close) / 2;
+    return [
+      { ...point, high: point.open, low: point.open, close: point.open },
+      { ...point, high: Math.max(point.open, mid, point.high - 0.5), low: Math.min(point.open, mid), close: mid },
+      point,
+    ];
+  };
+
+  const data = randomWalk(7, 300, { start: 50, min: 1 })
+    .map(({ open, high, low, close }, i) => ({ ...bar(1, open, high, low, close), date: `d${i}`, timestamp: i }));
+  const boxes: RenkoBox[] = [{ mode: 'fixed', size: 1 }, { mode: 'percent', percent: 2 }];
+  const options: RenkoOptions[] = [
+    { reversal: 1, source: 'close' },
+    { reversal: 2, source: 'close' },
+    { reversal: 3, source: 'highLow', intrabarOrder: 'highFirst' },
+    { reversal: 2, source: 'highLow', intrabarOrder: 'lowFirst' },
+    { reversal: 1, source: 'highLow', intrabarOrder: 'candle' },
+  ];
+  const cases = boxes.flatMap(box => options.map((opts): [string, RenkoBox, RenkoOptions] => [`${box.mode} ${JSON.stringify(opts)}`, box, opts]));
+
+  it.each(cases)('push repete o cálculo completo (%s)', (_, box, opts) => {
+    const builder = createRenkoBuilder(box, opts);
+    const emitted: RenkoBrick[] = [];
+    data.forEach(point => emitted.push(...builder.push(point).bricks));
+    expect(emitted).toEqual(calculateRenkoBricks(data, box, opts));
+  });
+
+  it.each(cases)('amend do candle em formação converge para o cálculo completo (%s)', (_, box, opts) => {
+    const builder = createRenkoBuilder(box, opts);
+    data.forEach((point, i) => {
+      const [first, ...updates] = forming(point);
+      builder.push(first);
+      updates.forEach(builder.amend);
+      if (i % 50 === 49) expect(builder.bricks()).toEqual(calculateRenkoBricks(data.slice(0, i + 1), box, opts));
+    });
+    expect(builder.bricks()).toEqual(calculateRenkoBricks(data, box, opts));
+  });
+});
+
+describe('inferTickSize', () => {
+  const prices = (values: number[]) => values.map((v, i) => bar(i + 1, v, v, v, v));
+  const grid = (tick: number, base: number) => Array.from({ length: 200 }, (_, i) => base + ((i * 7919) % 97) * tick);
+
+  it('encontra o passo da grade dos preços brutos', () => {
+    expect(inferTickSize(prices(grid(0.01, 20)))).toBe(0.01);
+    expect(inferTickSize(prices(grid(5, 125000)))).toBe(5);
+    expect(inferTickSize(prices(grid(0.5, 5000)))).toBe(0.5);
+  });
+
+  it('tolera ruído de ponto flutuante e poucos preços fora da grade', () => {
+    const noisy = grid(0.01, 20).map(v => v * (1 + 1e-12));
+    expect(inferTickSize(prices(noisy))).toBe(0.01);
+    const outliers = grid(0.05, 20).map((v, i) => (i % 50 === 0 ? v + 0.013 : v));
+    expect(inferTickSize(prices(outliers))).toBe(0.05);
+  });
+
+  it('usa 0,01 quando os preços não formam grade (série já ajustada)', () => {
+    expect(inferTickSize(prices(grid(0.01, 20).map(v => v * 0.987654321)))).toBe(0.01);
+  });
+});
@@ -1,4 +1,5 @@
-import { FinancialDataPoint } from '../types';
+import { BrickSizing, ChartSettings, FinancialDataPoint, IntrabarOrder, RenkoSource } from '../types';
+import { calculateATR } from './oscillators';
 
 export interface RenkoBrick {
   index: number;
@@ -10,78 +11,164 @@ export interface RenkoBrick {
   type: 'up' | 'down';
   bounds: [number, number]; // Corpo [min, max]
   wickBounds: [number, number]; // Pavio [min, max]
+  volume: number; // Volume acumulado desde o tijolo anterior, dividido entre os tijolos formados no mesmo candle
+  boxPercent?: number; // Variação de cada tijolo em %, na grade percentual
   // Indicadores herdados do candle gerador
   mm72?: number;
   jma?: number;
   topoFundo?: number;
 }
 
-export const calculateRenkoBricks = (data: FinancialDataPoint[], brickSize: number): RenkoBrick[] => {
-  if (!data || data.length === 0 || brickSize <= 0) return [];
+// Grade dos tijolos: passo fixo em preço ou passo percentual (níveis em progressão geométrica,
+// equivalente a tijolos iguais em escala logarítmica)
+export type RenkoBox = { mode: 'fixed'; size: number } | { mode: 'percent'; percent: number };
 
-  const bricks: RenkoBrick[] = [];
-  
-  // Normaliza o preço inicial para o "grid" do Renko
-  let currentRefPrice = Math.floor(data[0].close / brickSize) * brickSize;
-  let brickIndex = 0;
+export interface RenkoOptions {
+  // Tijolos de movimento contra a tendência necessários para reverter
+  // (1 = reversão imediata, 2 = Renko clássico de Profit/TradingView, N = mais conservador)
+  reversal?: number;
+  source?: RenkoSource;
+  intrabarOrder?: IntrabarOrder;
+}
+
+// Preços percorridos dentro do candle. No modo highLow o caminho é abertura → extremos → fechamento,
+// então um candle que atravessa vários níveis e volta ao meio também forma tijolos.
+export const getIntrabarPath = (point: FinancialDataPoint, source: RenkoSource = 'close', order: IntrabarOrder = 'candle'): number[] => {
+  if (source === 'close') return [point.close];
+  const highFirst = order === 'highFirst' || (order === 'candle' && point.close < point.open);
+  return highFirst
+    ? [point.open, point.high, point.low, point.close]
+    : [point.open, point.low, point.high, point.close];
+};
+
+// Tijolos novos ou refeitos: o consumidor substitui a série a partir de `from` por `bricks`
+export interface RenkoUpdate {
+  from: number;
+  bricks: RenkoBrick[];
+}
+
+// Construção incremental: `push` processa um candle novo gerando só os tijolos dele (O(1) por candle);
+// `amend` substitui o último candle (candle em formação de um feed ao vivo) e refaz apenas os seus tijolos.
+export interface RenkoBuilder {
+  push: (point: FinancialDataPoint) => RenkoUpdate;
+  amend: (point: FinancialDataPoint) => RenkoUpdate;
+  bricks: () => RenkoBrick[]; // Cópia da série atual
+}
+
+// Estado entre candles: nível de referência, direção e o que foi acumulado desde o último tijolo
+interface RenkoState {
+  refPrice: number;
+  direction: 'up' | 'down' | null;
+  brickIndex: number;
+  periodHigh: number;
+  periodLow: number;
+  periodVolume: number;
+}
 
-  // Variáveis para rastrear extremos (pavios) entre formações de tijolos
-  let periodHigh = data[0].high;
-  let periodLow = data[0].low;
+export const createRenkoBuilder = (box: RenkoBox, options: RenkoOptions = {}): RenkoBuilder => {
+  const { reversal = 1, source = 'close', intrabarOrder = 'candle' } = options;
+  const step = box.mode === 'fixed' ? box.size : box.percent;
+  const factor = 1 + step / 100;
+  const levelAbove = (ref: number) => (box.mode === 'fixed' ? ref + step : ref * factor);
+  const levelBelow = (ref: number) => (box.mode === 'fixed' ? ref - step : ref / factor);
+  const boxPercent = box.mode === 'percent' ? step : undefined;
+  const reversalBricks = Math.max(1, Math.round(reversal));
+  const stepLevels = (ref: number, count: number, next: (ref: number) => number) => {
+    let level = ref;
+    for (let n = 0; n < count; n++) level = next(level);
+    return level;
+  };
 
-  for (let i = 0; i < data.length; i++) {
-    const { close, high, low, date, mm72, jma, topoFundo } = data[i];
+  // Candle que pode entrar na grade: preços numéricos e, na grade percentual, positivos
+  const isValidCandle = (point: FinancialDataPoint) =>
+    getIntrabarPath(point, source, intrabarOrder).every(price => isFinite(price) && (box.mode === 'fixed' || price > 0));
+
+  // Normaliza o preço inicial para o "grid" do Renko (primeiro preço do caminho: fechamento ou abertura)
+  const initialState = (point: FinancialDataPoint): RenkoState => {
+    const firstPrice = getIntrabarPath(point, source, intrabarOrder)[0];
+    return {
+      refPrice: box.mode === 'fixed'
+        ? Math.floor(firstPrice / step) * step
+        : Math.pow(factor, Math.floor(Math.log(firstPrice) / Math.log(factor))),
+      direction: null,
+      brickIndex: 0,
+      // Variáveis para rastrear extremos (pavios) entre formações de tijolos
+      periodHigh: -Infinity,
+      periodLow: Infinity,
+      periodVolume: 0,
+    };
+  };
+
+  const processCandle = (start: RenkoState, point: FinancialDataPoint): [RenkoState, RenkoBrick[]] => {
+    const { high, low, volume, date, mm72, jma, topoFundo } = point;
+    let { refPrice: currentRefPrice, direction, brickIndex, periodHigh, periodLow, periodVolume } = start;
 
     // Atualiza os extremos do período atual (acumula pavio)
     if (high > periodHigh) periodHigh = high;
     if (low < periodLow) periodLow = low;
+    periodVolume += volume || 0;
+
+    const createdBricksInThisStep: RenkoBrick[] = [];
 
-    let createdBricksInThisStep: RenkoBrick[] = [];
+    for (const price of getIntrabarPath(point, source, intrabarOrder)) {
+      // Reversão: contra a tendência o preço precisa percorrer `reversalBricks` níveis a partir do fechamento
+      // do último tijolo. Com 2 ou mais, o tijolo de reversão abre na abertura do último tijolo (não no fechamento).
+      const reversesUp = direction === 'down' && price >= stepLevels(currentRefPrice, reversalBricks, levelAbove);
+      const reversesDown = direction === 'up' && price <= stepLevels(currentRefPrice, reversalBricks, levelBelow);
+      if (reversalBricks > 1 && reversesUp) currentRefPrice = levelAbove(currentRefPrice);
+      if (reversalBricks > 1 && reversesDown) currentRefPrice = levelBelow(currentRefPrice);
 
-    // Tenta criar tijolos de ALTA
-    while (close >= currentRefPrice + brickSize) {
-      const brickOpen = currentRefPrice;
-      const brickClose = currentRefPrice + brickSize;
+      // Tenta criar tijolos de ALTA
+      while ((direction !== 'down' || reversesUp) && price >= levelAbove(currentRefPrice)) {
+        const brickOpen = currentRefPrice;
+        const brickClose = levelAbove(currentRefPrice);
       
-      createdBricksInThisStep.push({
-        index: brickIndex++,
-        date: date,
-        open: brickOpen,
-        close: brickClose,
-        high: brickClose,
-        low: brickOpen,
-        type: 'up',
-        bounds: [brickOpen, brickClose],
-        wickBounds: [brickOpen, brickClose], // Provisório
-        mm72,
-        jma,
-        topoFundo // Carrega o indicador se houver neste candle
-      });
+        createdBricksInThisStep.push({
+          index: brickIndex++,
+          date: date,
+          open: brickOpen,
+          close: brickClose,
+          high: brickClose,
+          low: brickOpen,
+          type: 'up',
+          bounds: [brickOpen, brickClose],
+          wickBounds: [brickOpen, brickClose], // Provisório
+          volume: 0,
+          boxPercent,
+          mm72,
+          jma,
+          topoFundo // Carrega o indicador se houver neste candle
+        });
       
-      currentRefPrice += brickSize;
-    }
+        currentRefPrice = brickClose;
+        direction = 'up';
+      }
 
-    // Tenta criar tijolos de BAIXA
-    while (close <= currentRefPrice - brickSize) {
-      const brickOpen = currentRefPrice;
-      const brickClose = currentRefPrice - brickSize;
+      // Tenta criar tijolos de BAIXA
+      while ((direction !== 'up' || reversesDown) && price <= levelBelow(currentRefPrice)) {
+        const brickOpen = currentRefPrice;
+        const brickClose = levelBelow(currentRefPrice);
       
-      createdBricksInThisStep.push({
-        index: brickIndex++,
-        date: date,
-        open: brickOpen,
-        close: brickClose,
-        high: brickOpen, // No Down, High é o Open
-        low: brickClose, // No Down, Low é o Close
-        type: 'down',
-        bounds: [brickClose, brickOpen], // [min, max]
-        wickBounds: [brickClose, brickOpen], // Provisório
-        mm72,
-        jma,
-        topoFundo
-      });
+        createdBricksInThisStep.push({
+          index: brickIndex++,
+          date: date,
+          open: brickOpen,
+          close: brickClose,
+          high: brickOpen, // No Down, High é o Open
+          low: brickClose, // No Down, Low é o Close
+          type: 'down',
+          bounds: [brickClose, brickOpen], // [min, max]
+          wickBounds: [brickClose, brickOpen], // Provisório
+          volume: 0,
+          boxPercent,
+          mm72,
+          jma,
+          topoFundo
+        });
       
-      currentRefPrice -= brickSize;
+        currentRefPrice = brickClose;
+        direction = 'down';
+      }
     }
 
     // Se tijolos foram criados, distribuímos os pavios acumulados
@@ -130,16 +217,123 @@ export const calculateRenkoBricks = (data: FinancialDataPoint[], brickSize: numb
          }
       }
 
-      // Adiciona ao array principal
-      bricks.push(...createdBricksInThisStep);
+      createdBricksInThisStep.forEach(b => { b.volume = periodVolume / createdBricksInThisStep.length; });
 
       // Reseta os acumuladores para o próximo candle
-      if (i < data.length - 1) {
-         periodHigh = data[i+1].high; 
-         periodLow = data[i+1].low;
-      }
+      periodHigh = -Infinity;
+      periodLow = Infinity;
+      periodVolume = 0;
     }
+
+    return [{ refPrice: currentRefPrice, direction, brickIndex, periodHigh, periodLow, periodVolume }, createdBricksInThisStep];
+  };
+
+  const bricks: RenkoBrick[] = [];
+  let committed: RenkoState | null = null; // Estado antes do último candle (null = grade ainda não iniciada)
+  let current: RenkoState | null = null;
+  let committedBricks = 0; // Tijolos formados antes do último candle
+
+  // (Re)processa o último candle a partir do estado anterior a ele. Candles inválidos são ignorados
+  // e a grade começa no primeiro candle válido.
+  const apply = (point: FinancialDataPoint): RenkoUpdate => {
+    bricks.length = committedBricks;
+    if (step <= 0 || !isValidCandle(point)) {
+      current = committed;
+      return { from: committedBricks, bricks: [] };
+    }
+    const [state, created] = processCandle(committed ?? initialState(point), point);
+    current = state;
+    bricks.push(...created);
+    return { from: committedBricks, bricks: created };
+  };
+
+  return {
+    push: (point) => {
+      committed = current;
+      committedBricks = bricks.length;
+      return apply(point);
+    },
+    amend: apply, // Sem candle anterior: equivale ao primeiro push
+    bricks: () => [...bricks],
+  };
+};
+
+export const calculateRenkoBricks = (data: FinancialDataPoint[], box: RenkoBox, options: RenkoOptions = {}): RenkoBrick[] => {
+  const builder = createRenkoBuilder(box, options);
+  data.forEach(point => builder.push(point));
+  return builder.bricks();
+};
+
+export const DEFAULT_BRICK_SIZING: BrickSizing = { mode: 'atr', atrPeriod: 14, atrMultiplier: 1, percent: 1, logPercent: 1 };
+
+// Barras recentes usadas para inferir o tick (o passo de preço do ativo)
+const TICK_SAMPLE = 500;
+// Passos candidatos (1, 2, 2,5 e 5 × 10^k, de 0,0001 a 500), do maior para o menor
+const TICK_CANDIDATES = [2, 1, 0, -1, -2, -3, -4].flatMap(exp => [5, 2.5, 2, 1].map(m => Number((m * 10 ** exp).toPrecision(6))));
+const TICK_TOLERANCE = 1e-3; // Distância máxima até a grade, em ticks (absorve ruído de ponto flutuante)
+const TICK_COVERAGE = 0.95; // Fração dos preços que precisa cair na grade (tolera alguns preços fora dela)
+const DEFAULT_TICK = 0.01;
+
+// Menor passo de preço: 0,01 em ações, 5 pontos no mini índice, 0,5 no mini dólar etc.
+// Deve receber os preços brutos (o ajuste por eventos tira os preços da grade). O maior candidato em que
+// quase todos os preços caem é o tick; sem nenhum (dados já ajustados na origem), usa 0,01.
+export const inferTickSize = (data: FinancialDataPoint[]): number => {
+  const prices = data.slice(-TICK_SAMPLE).flatMap(d => [d.open, d.high, d.low, d.close]).filter(p => isFinite(p) && p > 0);
+  if (prices.length === 0) return DEFAULT_TICK;
+
+  const onGrid = (tick: number) => {
+    const hits = prices.filter(p => {
+      const ticks = p / tick;
+      return Math.abs(ticks - Math.round(ticks)) <= TICK_TOLERANCE;
+    }).length;
+    return hits >= prices.length * TICK_COVERAGE;
+  };
+  return TICK_CANDIDATES.find(onGrid) ?? DEFAULT_TICK;
+};
+
+export const roundToTick = (value: number, tickSize: number) => {
+  const ticks = Math.max(1, Math.round(value / tickSize));
+  return Number((ticks * tickSize).toPrecision(12));
+};
+
+// Tamanho automático: múltiplo do ATR atual ou percentual do último fechamento, arredondado ao tick.
+// Retorna null se a série for curta demais para o ATR.
+export const computeAutoBrickSize = (data: FinancialDataPoint[], sizing: BrickSizing): { brickSize: number; tickSize: number } | null => {
+  if (data.length === 0) return null;
+  const tickSize = sizing.tickSize && sizing.tickSize > 0 ? sizing.tickSize : inferTickSize(data);
+
+  let raw: number | undefined;
+  if (sizing.mode === 'percent') {
+    raw = data[data.length - 1].close * (sizing.percent / 100);
+  } else {
+    const atr = calculateATR(data, sizing.atrPeriod);
+    const last = atr[atr.length - 1];
+    raw = last === undefined ? undefined : last * sizing.atrMultiplier;
   }
 
-  return bricks;
-};
\ No newline at end of file
+  if (raw === undefined || !isFinite(raw) || raw <= 0) return null;
+  return { brickSize: roundToTick(raw, tickSize), tickSize };
+};
+
+// Descrição do modo Renko em tela, usada no contexto da IA
+const INTRABAR_ORDER_LABELS: Record<IntrabarOrder, string> = {
+  highFirst: 'máxima antes da mínima',
+  lowFirst: 'mínima antes da máxima',
+  candle: 'ordem pela cor do candle',
+};
+
+export const describeRenkoMode = ({ brickSize, brickSizing, renkoReversal = 1, renkoSource = 'close', intrabarOrder = 'candle' }: Pick<ChartSettings, 'brickSize' | 'brickSizing' | 'renkoReversal' | 'renkoSource' | 'intrabarOrder'>) => {
+  const sizing = { ...DEFAULT_BRICK_SIZING, ...brickSizing, mode: brickSizing?.mode ?? 'manual' };
+  const reversal = (renkoReversal === 1 ? 'reversão com 1 tijolo' : `reversão com ${renkoReversal} tijolos${renkoReversal === 2 ? ' (clássica)' : ''}`)
+    + (renkoSource === 'highLow' ? `, formados por máxima/mínima (${INTRABAR_ORDER_LABELS[intrabarOrder]})` : ', formados pelo fechamento');
+  switch (sizing.mode) {
+    case 'log':
+      return `Renko percentual: cada tijolo = ${sizing.logPercent}% (grade logarítmica), ${reversal}`;
+    case 'atr':
+      return `Renko de tamanho fixo, automático: ${sizing.atrMultiplier} × ATR(${sizing.atrPeriod}) arredondado ao tick, ${reversal}`;
+    case 'percent':
+      return `Renko de tamanho fixo, automático: ${sizing.percent}% do último fechamento arredondado ao tick, ${reversal}`;
+    default:
+      return `Renko de tamanho fixo: ${brickSize} por tijolo, ${reversal}`;
+  }
+};
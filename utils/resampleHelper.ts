@@ -0,0 +1,117 @@
+import { FinancialDataPoint, Timeframe } from '../types';
+import { getB3Parts, formatB3Label, isSameTimeframe } from './timeHelper';
+
+const DAY_MS = 86400000;
+
+// Intervalos intraday oferecidos no seletor (filtrados pelos múltiplos do timeframe base)
+const MINUTE_STEPS = [5, 10, 15, 30, 60, 120, 240];
+
+// Duração aproximada em minutos, usada apenas para ordenar/comparar timeframes
+const toMinutes = (tf: Timeframe) => {
+  switch (tf.unit) {
+    case 'minute': return tf.size;
+    case 'day': return tf.size * 1440;
+    case 'week': return tf.size * 7 * 1440;
+    default: return tf.size * 30 * 1440;
+  }
+};
+
+// Timeframes maiores para os quais a série pode ser agregada
+export const getResampleOptions = (base: Timeframe): Timeframe[] => {
+  const options: Timeframe[] = [];
+
+  if (base.unit === 'minute') {
+    MINUTE_STEPS
+      .filter(step => step > base.size && step % base.size === 0)
+      .forEach(step => options.push({ unit: 'minute', size: step }));
+    options.push({ unit: 'day', size: 1 });
+  }
+  if (base.unit === 'minute' || base.unit === 'day') {
+    options.push({ unit: 'week', size: 1 });
+  }
+  if (base.unit !== 'month') {
+    options.push({ unit: 'month', size: 1 });
+  }
+
+  return options.filter(tf => toMinutes(tf) > toMinutes(base));
+};
+
+// Próximo timeframe acima, usado como contexto de "tendência macro" para a IA
+export const getHigherTimeframe = (base: Timeframe): Timeframe | null => {
+  if (base.unit === 'minute') return { unit: 'day', size: 1 };
+  if (base.unit === 'day') return { unit: 'week', size: 1 };
+  if (base.unit === 'week') return { unit: 'month', size: 1 };
+  return null;
+};
+
+// Chave do período a que a barra pertence, sempre no horário de Brasília
+const bucketKey = (point: FinancialDataPoint, target: Timeframe): string => {
+  const p = getB3Parts(point.timestamp);
+  const ymd = `${p.year}-${p.month}-${p.day}`;
+
+  switch (target.unit) {
+    case 'minute': {
+      const minuteOfDay = p.hour * 60 + p.minute;
+      return `${ymd} ${Math.floor(minuteOfDay / target.size)}`;
+    }
+    case 'week': {
+      // Semana começa na segunda-feira
+      const dayUTC = Date.UTC(p.year, p.month - 1, p.day);
+      const weekday = new Date(dayUTC).getUTCDay();
+      return String(dayUTC - ((weekday + 6) % 7) * DAY_MS);
+    }
+    case 'month':
+      return `${p.year}-${p.month}`;
+    default:
+      return ymd;
+  }
+};
+
+// Rótulo e timestamp da barra agregada: início do intervalo (intraday) ou data do primeiro pregão do período
+const bucketStart = (first: FinancialDataPoint, target: Timeframe) => {
+  if (target.unit !== 'minute') {
+    return { date: first.date.slice(0, 10), timestamp: first.timestamp };
+  }
+  const p = getB3Parts(first.timestamp);
+  const minuteOfDay = p.hour * 60 + p.minute;
+  const offsetMinutes = minuteOfDay % target.size;
+  const timestamp = first.timestamp - offsetMinutes * 60000 - p.second * 1000;
+  return { date: formatB3Label(timestamp, true), timestamp };
+};
+
+// Agrega a série (já ordenada) em barras de um timeframe maior com OHLCV correto.
+// Indicadores importados (MM72, JMA, Topos/Fundos) foram calculados no timeframe original e não são herdados.
+export const resampleData = (data: FinancialDataPoint[], target: Timeframe, base?: Timeframe): FinancialDataPoint[] => {
+  if (data.length === 0 || (base && isSameTimeframe(base, target))) return data;
+
+  const result: FinancialDataPoint[] = [];
+  let currentKey: string | null = null;
+  let current: FinancialDataPoint | null = null;
+
+  data.forEach(point => {
+    const key = bucketKey(point, target);
+
+    if (key !== currentKey || !current) {
+      if (current) result.push(current);
+      currentKey = key;
+      current = {
+        ...bucketStart(point, target),
+        open: point.open,
+        high: point.high,
+        low: point.low,
+        close: point.close,
+        volume: point.volume,
+      };
+      return;
+    }
+
+    if (point.high > current.high) current.high = point.high;
+    if (point.low < current.low) current.low = point.low;
+    current.close = point.close;
+    current.volume += point.volume;
+  });
+
+  if (current) result.push(current);
+
+  return result;
+};
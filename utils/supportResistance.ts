@@ -0,0 +1,167 @@
+import { FinancialDataPoint } from '../types';
+import { filterRelevantSignals } from './chartSeries';
+import { calculateATR } from './oscillators';
+import { RenkoBrick } from './renkoHelper';
+
+// Zona de suporte/resistência: faixa de preço onde o mercado reverteu (topos/fundos relevantes)
+// ou negociou volume acima do normal
+export interface PriceZone {
+  low: number;
+  high: number;
+  kind: 'support' | 'resistance'; // Relativo ao último fechamento
+  touches: number; // Topos e fundos relevantes dentro da faixa
+  volumeShare: number; // Fração do volume da série negociada dentro da faixa (0 a 1)
+  highVolume: boolean; // Contém um nó de alto volume do perfil de preço
+  strength: number; // 0 a 100: toques, volume e recência
+  lastTouch?: string; // Data do toque mais recente
+}
+
+export const ZONE_SETTINGS = {
+  atrPeriod: 14,
+  widthAtr: 0.5, // Largura base da zona, em ATRs do fim da série
+  minWidthPercent: 0.1, // Piso da largura, em % do último fechamento
+  maxBins: 500, // Resolução máxima do perfil de volume
+  minTouches: 2, // Sem nó de volume, a zona precisa de pelo menos dois toques
+  maxZones: 8,
+};
+
+type ZoneItem = FinancialDataPoint | RenkoBrick;
+
+interface Pivot {
+  index: number;
+  price: number;
+}
+
+// Tijolos usam o pavio; candles, máxima/mínima
+const rangeOf = (item: ZoneItem): [number, number] => ('wickBounds' in item ? item.wickBounds : [item.low, item.high]);
+
+// Preço dos topos e fundos confirmados pelo zigzag (mesma geometria dos marcadores T/F)
+const relevantPivots = (items: ZoneItem[]): Pivot[] =>
+  Array.from(filterRelevantSignals(items)).map(index => {
+    const item = items[index];
+    const [low, high] = rangeOf(item);
+    const isTop = Math.abs(item.topoFundo! - high) <= Math.abs(item.topoFundo! - low);
+    return { index, price: isTop ? high : low };
+  });
+
+// Volume distribuído uniformemente entre as faixas de preço que cada barra percorreu
+const buildVolumeProfile = (items: ZoneItem[], binSize: number, floor: number, bins: number) => {
+  const profile = new Array<number>(bins).fill(0);
+  items.forEach(item => {
+    const [low, high] = rangeOf(item);
+    const from = Math.min(bins - 1, Math.floor((low - floor) / binSize));
+    const to = Math.min(bins - 1, Math.floor((high - floor) / binSize));
+    const share = (item.volume || 0) / (to - from + 1);
+    for (let b = from; b <= to; b++) profile[b] += share;
+  });
+  return profile;
+};
+
+// Nós de alto volume: máximos locais acima de média + 1 desvio padrão
+const highVolumeNodes = (profile: number[]) => {
+  const mean = profile.reduce((sum, v) => sum + v, 0) / profile.length;
+  const std = Math.sqrt(profile.reduce((sum, v) => sum + (v - mean) ** 2, 0) / profile.length);
+  return profile
+    .map((volume, bin) => ({ volume, bin }))
+    .filter(({ volume, bin }) => volume > mean + std && volume >= (profile[bin - 1] ?? 0) && volume >= (profile[bin + 1] ?? 0))
+    .map(({ bin }) => bin);
+};
+
+// Agrupa os topos/fundos relevantes (e os nós de volume) em zonas de suporte/resistência,
+// ordenadas do preço mais alto para o mais baixo
+export const detectPriceZones = (items: ZoneItem[]): PriceZone[] => {
+  if (items.length < 2) return [];
+
+  const ranges = items.map(rangeOf);
+  const lastClose = items[items.length - 1].close;
+  const atr = calculateATR(items.map((item, i) => ({ low: ranges[i][0], high: ranges[i][1], close: item.close })), ZONE_SETTINGS.atrPeriod);
+  const lastAtr = atr[atr.length - 1] ?? ranges.reduce((sum, [low, high]) => sum + (high - low), 0) / ranges.length;
+  const width = Math.max(lastAtr * ZONE_SETTINGS.widthAtr, (lastClose * ZONE_SETTINGS.minWidthPercent) / 100);
+  if (!(width > 0)) return [];
+
+  // 1. Candidatas: topos/fundos próximos (até uma largura de zona) formam um grupo
+  const pivots = relevantPivots(items);
+  const candidates: [number, number][] = [];
+  [...pivots].sort((a, b) => a.price - b.price).forEach(({ price }) => {
+    const current = candidates[candidates.length - 1];
+    if (current && price - current[0] <= width) current[1] = price;
+    else candidates.push([price, price]);
+  });
+
+  // 2. Perfil de volume: cada nó de alto volume também vira candidata
+  const floor = ranges.reduce((min, r) => Math.min(min, r[0]), Infinity);
+  const ceiling = ranges.reduce((max, r) => Math.max(max, r[1]), -Infinity);
+  const binSize = Math.max(width / 2, (ceiling - floor) / ZONE_SETTINGS.maxBins);
+  const bins = Math.max(1, Math.ceil((ceiling - floor) / binSize));
+  const profile = buildVolumeProfile(items, binSize, floor, bins);
+  const totalVolume = profile.reduce((sum, v) => sum + v, 0);
+  const nodes = totalVolume > 0 ? highVolumeNodes(profile).map(bin => floor + (bin + 0.5) * binSize) : [];
+  nodes.forEach(center => candidates.push([center, center]));
+
+  // 3. Largura mínima e fusão das faixas sobrepostas
+  const merged: [number, number][] = [];
+  candidates
+    .map(([low, high]): [number, number] => {
+      const pad = Math.max(0, width - (high - low)) / 2;
+      return [low - pad, high + pad];
+    })
+    .sort((a, b) => a[0] - b[0])
+    .forEach(([low, high]) => {
+      const current = merged[merged.length - 1];
+      if (current && low <= current[1]) current[1] = Math.max(current[1], high);
+      else merged.push([low, high]);
+    });
+
+  const zones = merged
+    .map(([low, high]) => {
+      const inside = pivots.filter(p => p.price >= low && p.price <= high);
+      const lastIndex = inside.reduce((max, p) => Math.max(max, p.index), -1);
+      const volume = profile.reduce((sum, v, bin) => {
+        const center = floor + (bin + 0.5) * binSize;
+        return center >= low && center <= high ? sum + v : sum;
+      }, 0);
+      return {
+        low,
+        high,
+        kind: ((low + high) / 2 <= lastClose ? 'support' : 'resistance') as PriceZone['kind'],
+        touches: inside.length,
+        volumeShare: totalVolume > 0 ? volume / totalVolume : 0,
+        highVolume: nodes.some(center => center >= low && center <= high),
+        strength: 0,
+        lastTouch: lastIndex >= 0 ? items[lastIndex].date : undefined,
+        lastIndex,
+      };
+    })
+    .filter(zone => zone.touches >= ZONE_SETTINGS.minTouches || zone.highVolume);
+
+  // 4. Força: até 50 pelos toques (satura em 5), 30 pelo volume relativo à zona mais negociada, 20 pela recência
+  const maxShare = Math.max(0, ...zones.map(z => z.volumeShare));
+  zones.forEach(zone => {
+    const recency = zone.lastIndex >= 0 ? (zone.lastIndex + 1) / items.length : 0;
+    zone.strength = Math.round(
+      (50 * Math.min(zone.touches, 5)) / 5 + (maxShare > 0 ? (30 * zone.volumeShare) / maxShare : 0) + 20 * recency
+    );
+  });
+
+  return zones
+    .sort((a, b) => b.strength - a.strength)
+    .slice(0, ZONE_SETTINGS.maxZones)
+    .sort((a, b) => b.high - a.high)
+    .map(({ lastIndex, ...zone }): PriceZone => zone);
+};
+
+const ZONE_KIND_LABELS: Record<PriceZone['kind'], string> = {
+  support: 'Suporte',
+  resistance: 'Resistência',
+};
+
+// Linha de texto da zona (resumo do dashboard e contexto da IA)
+export const describePriceZone = (zone: PriceZone) => {
+  const details = [
+    `${zone.touches} toque(s)`,
+    `${(zone.volumeShare * 100).toFixed(1)}% do volume${zone.highVolume ? ' (nó de alto volume)' : ''}`,
+    `força ${zone.strength}/100`,
+    zone.lastTouch ? `último toque ${zone.lastTouch}` : undefined,
+  ].filter(Boolean);
+  return `${ZONE_KIND_LABELS[zone.kind]} ${zone.low.toFixed(2)}–${zone.high.toFixed(2)}: ${details.join(', ')}`;
+};
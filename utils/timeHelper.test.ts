@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { b3LocalToTimestamp, detectTimeframe, formatB3Label } from './timeHelper';
+
+describe('b3LocalToTimestamp', () => {
+  it('converte horários comuns com e sem horário de verão', () => {
+    expect(b3LocalToTimestamp(2024, 3, 15)).toBe(Date.UTC(2024, 2, 15, 3));
+    expect(b3LocalToTimestamp(2018, 1, 10, 10, 30)).toBe(Date.UTC(2018, 0, 10, 12, 30));
+  });
+
+  it('meia-noite inexistente do início do horário de verão avança para 01:00 do mesmo dia', () => {
+    const timestamp = b3LocalToTimestamp(2018, 11, 4);
+    expect(formatB3Label(timestamp, true)).toBe('2018-11-04 01:00');
+    expect(formatB3Label(timestamp, false)).toBe('2018-11-04');
+    expect(formatB3Label(b3LocalToTimestamp(2017, 10, 15), false)).toBe('2017-10-15');
+  });
+
+  it('mantém o dia no fim do horário de verão (horário repetido)', () => {
+    expect(formatB3Label(b3LocalToTimestamp(2018, 2, 17, 23, 30), true)).toBe('2018-02-17 23:30');
+    expect(formatB3Label(b3LocalToTimestamp(2018, 2, 18), true)).toBe('2018-02-18 00:00');
+  });
+});
+
+describe('detectTimeframe', () => {
+  const bars = (dates: string[]) => dates.map(date => {
+    const [day, time = '00:00'] = date.split(' ');
+    const [year, month, dd] = day.split('-').map(Number);
+    const [hour, minute] = time.split(':').map(Number);
+    return { date, timestamp: b3LocalToTimestamp(year, month, dd, hour, minute), open: 1, high: 1, low: 1, close: 1, volume: 0 };
+  });
+
+  it('rótulo com hora e intervalo de um dia ou mais não vira intraday', () => {
+    expect(detectTimeframe(bars(['2024-01-02 00:00', '2024-01-03 00:00', '2024-01-04 00:00']))).toEqual({ unit: 'day', size: 1 });
+    expect(detectTimeframe(bars(['2024-01-05 18:00', '2024-01-12 18:00', '2024-01-19 18:00']))).toEqual({ unit: 'week', size: 1 });
+  });
+
+  it('intervalos menores que um dia com hora no rótulo são intraday', () => {
+    expect(detectTimeframe(bars(['2024-01-02 10:00', '2024-01-02 10:15', '2024-01-02 10:30']))).toEqual({ unit: 'minute', size: 15 });
+  });
+});
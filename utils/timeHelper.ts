@@ -0,0 +1,135 @@
+import { FinancialDataPoint, Timeframe } from '../types';
+
+export const B3_TIME_ZONE = 'America/Sao_Paulo';
+
+export const DAILY_TIMEFRAME: Timeframe = { unit: 'day', size: 1 };
+
+export const DAY_MS = 86400000;
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const b3Formatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: B3_TIME_ZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit',
+  hourCycle: 'h23',
+});
+
+// Componentes de data/hora de um instante no horário de Brasília
+export const getB3Parts = (timestamp: number): ZonedParts => {
+  const parts: Record<string, number> = {};
+  b3Formatter.formatToParts(new Date(timestamp)).forEach(p => {
+    if (p.type !== 'literal') parts[p.type] = parseInt(p.value, 10);
+  });
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+};
+
+// Diferença (ms) entre o horário de Brasília e UTC no instante informado
+const getB3Offset = (timestamp: number) => {
+  const p = getB3Parts(timestamp);
+  const asUTC = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUTC - (timestamp - (timestamp % 1000));
+};
+
+// Converte um horário local da B3 em epoch. Considera o horário de verão dos anos anteriores a 2019.
+export const b3LocalToTimestamp = (year: number, month: number, day: number, hour = 0, minute = 0, second = 0) => {
+  const guess = Date.UTC(year, month - 1, day, hour, minute, second);
+  const first = guess - getB3Offset(guess);
+  // Segunda passada corrige o offset quando o palpite cai do outro lado de uma transição
+  const timestamp = guess - getB3Offset(first);
+  // Horário inexistente (lacuna do início do horário de verão, ex: 00:00 de 2018-11-04): avança para
+  // depois da lacuna em vez de voltar para o dia anterior
+  const p = getB3Parts(timestamp);
+  const roundTrip = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return roundTrip === guess ? timestamp : Math.max(timestamp, first);
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Rótulo padronizado: YYYY-MM-DD ou YYYY-MM-DD HH:mm no horário de Brasília
+export const formatB3Label = (timestamp: number, withTime: boolean) => {
+  const p = getB3Parts(timestamp);
+  const date = `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+  return withTime ? `${date} ${pad(p.hour)}:${pad(p.minute)}` : date;
+};
+
+export const isIntradayLabel = (date: string) => date.length > 10;
+
+export const isIntraday = (timeframe?: Timeframe) => timeframe?.unit === 'minute';
+
+export const isSameTimeframe = (a: Timeframe, b: Timeframe) => a.unit === b.unit && a.size === b.size;
+
+// Mediana dos intervalos positivos entre timestamps ordenados (undefined sem ao menos dois instantes distintos)
+export const medianInterval = (timestamps: number[]): number | undefined => {
+  const diffs: number[] = [];
+  for (let i = 1; i < timestamps.length; i++) {
+    const diff = timestamps[i] - timestamps[i - 1];
+    if (diff > 0) diffs.push(diff);
+  }
+  if (diffs.length === 0) return undefined;
+
+  diffs.sort((a, b) => a - b);
+  return diffs[Math.floor(diffs.length / 2)];
+};
+
+// Infere o timeframe pela mediana dos intervalos entre barras consecutivas
+export const detectTimeframe = (data: FinancialDataPoint[]): Timeframe => {
+  const median = medianInterval(data.map(d => d.timestamp));
+  if (median === undefined) return DAILY_TIMEFRAME;
+
+  // Hora no rótulo só indica intraday quando as barras são menores que um dia
+  if (median < DAY_MS && data.some(d => isIntradayLabel(d.date))) {
+    return { unit: 'minute', size: Math.max(1, Math.round(median / 60000)) };
+  }
+
+  const days = median / DAY_MS;
+  if (days >= 25) return { unit: 'month', size: 1 };
+  if (days >= 5) return { unit: 'week', size: 1 };
+  return DAILY_TIMEFRAME;
+};
+
+export const formatTimeframe = (timeframe: Timeframe) => {
+  switch (timeframe.unit) {
+    case 'minute':
+      return `${timeframe.size}min`;
+    case 'week':
+      return timeframe.size === 1 ? 'Semanal' : `${timeframe.size} Semanas`;
+    case 'month':
+      return timeframe.size === 1 ? 'Mensal' : `${timeframe.size} Meses`;
+    default:
+      return timeframe.size === 1 ? 'Diário' : `${timeframe.size} Dias`;
+  }
+};
+
+// Rótulo curto para o eixo X. Diário mantém o formato original YYYY-MM-DD.
+export const formatAxisLabel = (date: string) => {
+  if (!isIntradayLabel(date)) return date;
+  const [day, time] = date.split(' ');
+  const [, month, dd] = day.split('-');
+  return `${dd}/${month} ${time}`;
+};
+
+export const formatTooltipLabel = (date: string) => {
+  if (!isIntradayLabel(date)) return date;
+  const [day, time] = date.split(' ');
+  const [year, month, dd] = day.split('-');
+  return `${dd}/${month}/${year} ${time}`;
+};
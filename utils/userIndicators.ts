@@ -0,0 +1,55 @@
+import { FinancialDataPoint, UserIndicator } from '../types';
+import { compileFormula, FormulaBar } from './formulaEngine';
+
+const STORAGE_KEY = 'user_indicators';
+
+// Cores sugeridas para novos indicadores, em ordem de criação
+export const USER_INDICATOR_COLORS = ['#e879f9', '#facc15', '#4ade80', '#f472b6', '#60a5fa', '#fb7185'];
+
+export const loadUserIndicators = (): UserIndicator[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (e) {
+    console.error("Failed to read user indicators", e);
+    return [];
+  }
+};
+
+export const persistUserIndicators = (indicators: UserIndicator[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(indicators));
+};
+
+// Fórmula enviada ao worker para ser avaliada sobre a série desenhada
+export interface FormulaDefinition {
+  id: string;
+  formula: string;
+}
+
+// Valores de cada indicador do usuário por id. Fórmulas inválidas são ignoradas (a validação acontece ao salvar).
+export const evaluateUserFormulas = (formulas: FormulaDefinition[], bars: FormulaBar[]) => {
+  const result: Record<string, (number | undefined)[]> = {};
+  formulas.forEach(({ id, formula }) => {
+    try {
+      result[id] = compileFormula(formula)(bars);
+    } catch (e) {
+      console.error(`Fórmula inválida ignorada (${id})`, e);
+    }
+  });
+  return result;
+};
+
+// Colunas extras da tabela enviada à IA, alinhadas às últimas `count` barras
+export interface FormulaColumn {
+  name: string;
+  formula: string;
+  values: (number | undefined)[];
+}
+
+export const buildFormulaColumns = (indicators: UserIndicator[], data: FinancialDataPoint[], count: number): FormulaColumn[] => {
+  const selected = indicators.filter(i => i.includeInAI);
+  const values = evaluateUserFormulas(selected, data);
+  return selected
+    .filter(i => values[i.id])
+    .map(i => ({ name: i.name, formula: i.formula, values: values[i.id].slice(-count) }));
+};
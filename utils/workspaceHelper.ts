@@ -0,0 +1,28 @@
+import { AssetDataset } from '../types';
+import { isSameTimeframe } from './timeHelper';
+
+// Ações/FIIs/BDRs da B3 (PETR4, VALE3, BOVA11, TAEE11...) e contratos futuros (WINJ24, WDOFUT, IND$N...)
+const B3_STOCK_REGEX = /\b([A-Z]{4}\d{1,2})F?\b/;
+const B3_FUTURE_REGEX = /\b((?:WIN|WDO|IND|DOL|BGI|CCM|ICF)[A-Z$]?(?:\d{2}|FUT|\$N)?)\b/;
+
+// Extrai o ticker do nome do arquivo (ex: "PETR4_Diario.csv" -> "PETR4")
+export const extractTickerFromFileName = (fileName: string): string => {
+  const base = fileName.replace(/\.[^.]+$/, '').toUpperCase().replace(/[_\-.]+/g, ' ');
+
+  const stock = base.match(B3_STOCK_REGEX);
+  if (stock) return stock[1];
+
+  const future = base.match(B3_FUTURE_REGEX);
+  if (future) return future[1];
+
+  // Fallback: primeira palavra do nome do arquivo
+  return base.trim().split(/\s+/)[0] || 'ATIVO';
+};
+
+export const createDatasetId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Um reimport do mesmo ativo no mesmo timeframe substitui a série existente
+export const findMatchingDataset = (datasets: AssetDataset[], candidate: Pick<AssetDataset, 'ticker' | 'timeframe'>) =>
+  datasets.find(d =>
+    d.ticker.toUpperCase() === candidate.ticker.toUpperCase() && isSameTimeframe(d.timeframe, candidate.timeframe)
+  );
@@ -0,0 +1,69 @@
+// Web Worker de processamento de dados: leitura do CSV, importação, agregação de timeframe,
+// indicadores do app e geração das séries do gráfico rodam fora da thread da interface.
+import { readCSV, importRows } from '../utils/csvHelper';
+import { resampleData } from '../utils/resampleHelper';
+import { buildAreaSeries, buildRenkoSeries } from '../utils/chartSeries';
+import { computeAutoBrickSize } from '../utils/renkoHelper';
+import { getIndicatorSeries } from '../utils/indicatorEngine';
+import { detectPriceZones } from '../utils/supportResistance';
+import type { DataWorkerRequest, DataWorkerResponse, SeriesRequest, SeriesResult } from '../services/dataWorkerService';
+
+const ctx = self as unknown as Worker;
+
+const post = (message: DataWorkerResponse) => ctx.postMessage(message);
+
+// Série do gráfico sem as zonas (calculadas depois sobre os pontos prontos)
+const buildSeries = (request: SeriesRequest, onProgress: (fraction: number) => void): Omit<SeriesResult, 'zones'> => {
+  // Candles no timeframe original já chegam com os indicadores do app; os agregados não
+  const resampled = !!(request.base && request.target);
+  const data = resampled ? resampleData(request.data, request.target!, request.base) : request.data;
+  onProgress(0.5);
+  if (request.chartType !== 'renko') {
+    const points = buildAreaSeries(data, resampled ? request.indicators : undefined, request.formulas);
+    return { points, brickSize: request.brickSize };
+  }
+
+  const sizing = request.brickSizing;
+  const options = request.renkoOptions ?? {};
+  if (sizing?.mode === 'log') {
+    const points = buildRenkoSeries(data, { mode: 'percent', percent: sizing.logPercent }, options, request.indicators, request.formulas);
+    return { points, brickSize: request.brickSize, boxPercent: sizing.logPercent };
+  }
+
+  // Sem ATR suficiente o tamanho manual é mantido
+  const auto = sizing && sizing.mode !== 'manual' ? computeAutoBrickSize(data, sizing) : null;
+  const brickSize = auto ? auto.brickSize : request.brickSize;
+  const points = buildRenkoSeries(data, { mode: 'fixed', size: brickSize }, options, request.indicators, request.formulas);
+  return { points, brickSize, tickSize: auto?.tickSize };
+};
+
+const run = async (request: DataWorkerRequest, onProgress: (fraction: number) => void): Promise<unknown> => {
+  switch (request.task) {
+    case 'read':
+      return readCSV(request.file, onProgress);
+
+    case 'import':
+      return importRows(request.raw, request.mapping, { ...request.options, onProgress });
+
+    case 'resample':
+      return resampleData(request.data, request.target, request.base);
+
+    case 'indicators':
+      return getIndicatorSeries(request.dataset);
+
+    case 'series': {
+      const series = buildSeries(request, onProgress);
+      const result: SeriesResult = { ...series, zones: detectPriceZones(series.points) };
+      return result;
+    }
+  }
+};
+
+ctx.onmessage = async (event: MessageEvent<DataWorkerRequest>) => {
+  try {
+    const result = await run(event.data, fraction => post({ type: 'progress', fraction }));
+    post({ type: 'done', result });
+  } catch (err: any) {
+    post({ type: 'error', message: err?.message || 'Erro ao processar dados' });
+  }
+};